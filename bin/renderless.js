@@ -0,0 +1,17 @@
+#!/usr/bin/env node
+// `renderless`: runs the CLI from its TypeScript sources with tsx, on the browser build of solid-js
+// (the server build has no reactivity).
+import { spawn } from 'node:child_process'
+import { fileURLToPath } from 'node:url'
+
+const main = fileURLToPath(new URL('../src/main.ts', import.meta.url))
+const child = spawn(
+  process.execPath,
+  ['--conditions', 'browser', '--import', import.meta.resolve('tsx'), main, ...process.argv.slice(2)],
+  { stdio: 'inherit' }
+)
+
+// Ctrl-C reaches the CLI directly from the terminal: let it dispose the run and pick the exit code.
+process.on('SIGINT', () => {})
+process.on('SIGTERM', () => child.kill('SIGTERM'))
+child.on('exit', (code, signal) => process.exit(code ?? (signal ? 1 : 0)))
@@ -0,0 +1,69 @@
+import { bench, describe } from 'vitest'
+import { compileLogic, exec, runLogic, type LogicRule } from './Interpreter'
+
+// A ticking signal observed by an $effect in each of 1000 $for items.
+const items = Array.from({ length: 1000 }, (_, i) => ({ id: i, weight: i % 7 }))
+
+const rule: LogicRule = {
+  def: [
+    'tick',
+    { $state: 0 },
+    {
+      __lazy: true,
+      rule: {
+        seq: [
+          {
+            $for: [
+              { var: 'items' },
+              {
+                __lazy: true,
+                rule: {
+                  $effect: {
+                    __lazy: true,
+                    rule: {
+                      if: [
+                        { '>': [{ '*': [{ var: 'item.weight' }, { call: [{ var: 'tick' }] }] }, 10] },
+                        { cat: ['item ', { var: 'item.id' }, ' is heavy'] },
+                        null
+                      ]
+                    }
+                  }
+                }
+              }
+            ]
+          },
+          { var: 'tick' }
+        ]
+      }
+    }
+  ]
+}
+
+const ticks = (run: () => { result: any; dispose: () => void }) => {
+  const { result: tick, dispose } = run()
+  for (let i = 1; i <= 20; i++) tick.set(i)
+  dispose()
+}
+
+describe('1000 $for items ticking 20 times', () => {
+  bench('interpreted', () => ticks(() => runLogic(rule, { items })))
+
+  const compiled = compileLogic(rule)
+  bench('compiled', () => ticks(() => runLogic(compiled, { items })))
+})
+
+// A pure rule: no signals, so the cost is all evaluation.
+const scoring: LogicRule = {
+  reduce: [
+    { map: [{ var: 'items' }, { '*': [{ var: 'weight' }, { '+': [{ var: 'id' }, 1] }] }] },
+    { '+': [{ var: 'current' }, { var: 'accumulator' }] },
+    0
+  ]
+}
+
+describe('map/reduce over 1000 items', () => {
+  bench('interpreted', () => exec(scoring, { items }))
+
+  const compiled = compileLogic(scoring)
+  bench('compiled', () => compiled({ items }))
+})
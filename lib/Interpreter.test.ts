@@ -1,11 +1,30 @@
 import { describe, it, expect, vi } from 'vitest'
 import { createRoot, getOwner } from 'solid-js'
-import { runLogic } from './interpreter'
+import jsonLogic from 'json-logic-js'
+import {
+  compileLogic,
+  createInterpreter,
+  exec,
+  runLogic as interpretLogic,
+  validateLogic,
+  printTree,
+  createMemoryLoader,
+  LogicValidationError,
+  SandboxError,
+  type Interpreter,
+  type TraceEvent
+} from './Interpreter'
 import * as solidApi from './solid'
 
 const tick = () => new Promise((resolve) => setTimeout(resolve, 0))
 
-describe('interpreter', () => {
+// Every interpreter case runs twice: interpreted, and compiled ahead of time with `compileLogic`.
+const modes: [string, Interpreter['runLogic']][] = [
+  ['interpreted', interpretLogic],
+  ['compiled', (json, data, options) => interpretLogic(compileLogic(json as any), data, options)]
+]
+
+describe.each(modes)('interpreter (%s)', (_mode, runLogic) => {
   it('should run logic inside a createRoot', async () => {
     let owner: any
     runLogic(
@@ -16,103 +35,1327 @@ describe('interpreter', () => {
         }
       },
       {
-        saveOwner: () => {
-          owner = getOwner()
+        saveOwner: () => {
+          owner = getOwner()
+        }
+      }
+    )
+
+    await tick()
+    expect(owner).toBeDefined()
+  })
+
+  it('should create a local state with $state', () => {
+    const { result: getter } = runLogic({ $state: 10 }) as any
+    expect(typeof getter).toBe('function')
+    expect(getter()).toBe(10)
+    expect(getter.set).toBeDefined()
+  })
+
+  it('should get value from $state', () => {
+    const { result } = runLogic({ $state: 10 }) as any
+    expect(typeof result).toBe('function')
+    expect(result()).toBe(10)
+  })
+
+  it('should update nested fields with $store and $setIn', async () => {
+    const spy = vi.fn()
+    const { result: config } = runLogic(
+      {
+        def: [
+          'config',
+          { $store: { var: 'initial' } },
+          {
+            __lazy: true,
+            rule: {
+              seq: [
+                {
+                  $effect: {
+                    __lazy: true,
+                    rule: { call: [{ var: 'spy' }, { $get: [{ var: 'config' }, 'user.name'] }] }
+                  }
+                },
+                { $setIn: [{ var: 'config' }, 'user.age', 37] },
+                { $mergeIn: [{ var: 'config' }, 'user', { var: 'patch' }] },
+                { $deleteIn: [{ var: 'config' }, 'theme'] },
+                { var: 'config' }
+              ]
+            }
+          }
+        ]
+      },
+      { spy, initial: { user: { name: 'Ada', age: 36 }, theme: 'dark' }, patch: { role: 'admin' } }
+    ) as any
+
+    expect(spy.mock.calls).toEqual([['Ada']])
+    expect(config()).toEqual({ user: { name: 'Ada', age: 37, role: 'admin' } })
+
+    config.set({ user: { name: 'Grace' } })
+    await tick()
+    expect(spy).toHaveBeenLastCalledWith('Grace')
+  })
+
+  it('should start each $store from its own copy of the initial value', () => {
+    const defaults = { theme: 'dark' }
+    const { result } = runLogic(
+      {
+        def: [
+          'first',
+          { $store: { var: 'defaults' } },
+          {
+            __lazy: true,
+            rule: {
+              def: [
+                'second',
+                { $store: { var: 'defaults' } },
+                {
+                  __lazy: true,
+                  rule: [
+                    { $setIn: [{ var: 'first' }, 'theme', 'light'] },
+                    { $get: [{ var: 'first' }, 'theme'] },
+                    { $get: [{ var: 'second' }, 'theme'] }
+                  ]
+                }
+              ]
+            }
+          }
+        ]
+      },
+      { defaults }
+    )
+
+    expect(result).toEqual([undefined, 'light', 'dark'])
+    expect(defaults).toEqual({ theme: 'dark' })
+  })
+
+  it('should copy only the plain objects and arrays of a $store initial value', () => {
+    const format = (n: number) => `#${n}`
+    const created = new Date(0)
+    const defaults = { format, created, tags: [{ name: 'a' }] }
+    const { result } = runLogic(
+      {
+        def: [
+          's',
+          { $store: { var: 'defaults' } },
+          {
+            __lazy: true,
+            rule: [
+              { $setIn: [{ var: 's' }, 'tags.0.name', 'b'] },
+              { call: [{ $get: [{ var: 's' }, 'format'] }, 1] },
+              { $get: [{ var: 's' }, 'created'] },
+              { $get: [{ var: 's' }, 'tags.0.name'] }
+            ]
+          }
+        ]
+      },
+      { defaults }
+    )
+
+    expect(result).toEqual([undefined, '#1', created, 'b'])
+    expect(result[2]).toBe(created)
+    expect(defaults.tags).toEqual([{ name: 'a' }])
+  })
+
+  it('should refuse store paths through prototypes', () => {
+    const set = (field: string) =>
+      runLogic(
+        {
+          def: ['st', { $store: {} }, { __lazy: true, rule: { $setIn: [{ var: 'st' }, { var: 'field' }, 'yes'] } }]
+        },
+        { field }
+      )
+    expect(() => set('__proto__.polluted')).toThrow("Store path segment '__proto__' is not allowed")
+    expect(() => set('constructor.prototype.polluted')).toThrow("Store path segment 'constructor' is not allowed")
+    expect(({} as any).polluted).toBeUndefined()
+  })
+
+  it('should share state via $global within a run', () => {
+    const { result, globals } = runLogic({
+      seq: [{ $set: [{ $global: ['testKey', 5] }, 42] }, { call: [{ $global: ['testKey'] }] }]
+    }) as any
+
+    expect(result).toBe(42)
+    expect(globals.keys()).toEqual(['testKey'])
+    expect(globals.values()).toEqual({ testKey: 42 })
+  })
+
+  it('should scope $global to each run and dispose it with the root', () => {
+    const first = runLogic({ $set: [{ $global: ['scopedKey', 1] }, 2] })
+    const second = runLogic({ call: [{ $global: ['scopedKey', 10] }] })
+
+    expect(second.result).toBe(10)
+    expect(first.globals.values()).toEqual({ scopedKey: 2 })
+
+    // The process-wide default registry is untouched
+    createRoot((dispose) => {
+      expect(() => solidApi.Global('scopedKey')).toThrow("Global state 'scopedKey' not found")
+      dispose()
+    })
+
+    first.dispose()
+    expect(first.globals.keys()).toEqual([])
+    expect(second.globals.values()).toEqual({ scopedKey: 10 })
+  })
+
+  it('should share globals through an opt-in parent registry', async () => {
+    const shared = solidApi.createGlobalRegistry()
+    shared.define('tenant_status', 'idle')
+    const spy = vi.fn()
+
+    runLogic(
+      { $effect: { __lazy: true, rule: { call: [{ var: 'spy' }, { call: [{ $global: ['tenant_status'] }] }] } } },
+      { spy },
+      { sharedGlobals: shared }
+    )
+    const writer = runLogic({ $set: [{ $global: ['tenant_status'] }, 'running'] }, {}, { sharedGlobals: shared })
+
+    await tick()
+    expect(spy).toHaveBeenLastCalledWith('running')
+    expect(writer.globals.values()).toEqual({ tenant_status: 'running' })
+  })
+
+  it('should resolve $global from lambdas invoked outside the root', () => {
+    const { result: read, globals } = runLogic({
+      seq: [
+        { $global: ['lambdaKey', 'inside'] },
+        { lambda: { __lazy: true, rule: { call: [{ $global: ['lambdaKey'] }] } } }
+      ]
+    }) as any
+
+    expect(read()).toBe('inside')
+    expect(globals.keys()).toEqual(['lambdaKey'])
+  })
+
+  it('should run effect via $effect', async () => {
+    const spy = vi.fn()
+
+    runLogic(
+      {
+        $effect: {
+          __lazy: true,
+          rule: { call: [{ var: 'spyVar' }] }
+        }
+      },
+      { spyVar: spy }
+    )
+
+    await tick()
+    expect(spy).toHaveBeenCalled()
+  })
+
+  it('should lazy evaluate $show branches', async () => {
+    const positiveSpy = vi.fn()
+    const negativeSpy = vi.fn()
+
+    runLogic(
+      {
+        $show: [
+          true,
+          { __lazy: true, rule: { call: [{ var: 'pos' }] } },
+          { __lazy: true, rule: { call: [{ var: 'neg' }] } }
+        ]
+      },
+      { pos: positiveSpy, neg: negativeSpy }
+    )
+
+    await tick()
+
+    expect(positiveSpy).toHaveBeenCalled()
+    expect(negativeSpy).not.toHaveBeenCalled()
+  })
+
+  it('should mount only the first matching $switch case', async () => {
+    const calls: string[] = []
+    const { result: status } = runLogic(
+      {
+        def: [
+          'status',
+          { $state: 'idle' },
+          {
+            __lazy: true,
+            rule: {
+              seq: [
+                {
+                  $switch: [
+                    [
+                      [
+                        { __lazy: true, rule: { '===': [{ call: [{ var: 'status' }] }, 'loading'] } },
+                        { __lazy: true, rule: { call: [{ var: 'push' }, 'loading'] } }
+                      ],
+                      [
+                        { __lazy: true, rule: { '===': [{ call: [{ var: 'status' }] }, 'ready'] } },
+                        {
+                          __lazy: true,
+                          rule: {
+                            seq: [
+                              { call: [{ var: 'push' }, 'ready'] },
+                              { $cleanup: { __lazy: true, rule: { call: [{ var: 'push' }, 'ready-cleanup'] } } }
+                            ]
+                          }
+                        }
+                      ]
+                    ],
+                    { __lazy: true, rule: { call: [{ var: 'push' }, 'fallback'] } }
+                  ]
+                },
+                { var: 'status' }
+              ]
+            }
+          }
+        ]
+      },
+      { push: (msg: string) => calls.push(msg) }
+    ) as any
+
+    expect(calls).toEqual(['fallback'])
+
+    status.set('ready')
+    await tick()
+    expect(calls).toEqual(['fallback', 'ready'])
+
+    status.set('loading')
+    await tick()
+    expect(calls).toEqual(['fallback', 'ready', 'ready-cleanup', 'loading'])
+  })
+
+  it('should expose loading and value of a $resource', async () => {
+    const logs: string[] = []
+    runLogic(
+      {
+        def: [
+          'user',
+          { $resource: [1, { var: 'fetchUser' }] },
+          {
+            __lazy: true,
+            rule: {
+              $show: [
+                { __lazy: true, rule: { call: [{ var: 'user.loading' }] } },
+                { __lazy: true, rule: { call: [{ var: 'log' }, 'loading'] } },
+                { __lazy: true, rule: { call: [{ var: 'log' }, { cat: ['loaded ', { call: [{ var: 'user' }] }] }] } }
+              ]
+            }
+          }
+        ]
+      },
+      {
+        log: (msg: string) => logs.push(msg),
+        fetchUser: async (id: number) => `user-${id}`
+      }
+    )
+
+    expect(logs).toEqual(['loading'])
+    await tick()
+    expect(logs).toEqual(['loading', 'loaded user-1'])
+  })
+
+  it('should iterate with $for', async () => {
+    const spy = vi.fn()
+    runLogic(
+      {
+        $for: [
+          [1, 2, 3],
+          {
+            __lazy: true,
+            rule: { call: [{ var: 'spy' }, { var: 'item' }] }
+          }
+        ]
+      },
+      { spy }
+    )
+
+    await tick()
+    expect(spy).toHaveBeenCalledTimes(3)
+    expect(spy).toHaveBeenCalledWith(1)
+    expect(spy).toHaveBeenCalledWith(2)
+    expect(spy).toHaveBeenCalledWith(3)
+  })
+
+  it('should iterate by position with $index', async () => {
+    const spy = vi.fn()
+    const mounts = vi.fn()
+    const { result: list } = runLogic(
+      {
+        def: [
+          'list',
+          { $state: [[1, 2]] },
+          {
+            __lazy: true,
+            rule: {
+              seq: [
+                {
+                  $index: [
+                    { var: 'list' },
+                    {
+                      __lazy: true,
+                      rule: {
+                        seq: [
+                          { call: [{ var: 'mounts' }, { var: 'index' }] },
+                          { $effect: { __lazy: true, rule: { call: [{ var: 'spy' }, { call: [{ var: 'item' }] }] } } }
+                        ]
+                      }
+                    }
+                  ]
+                },
+                { var: 'list' }
+              ]
+            }
+          }
+        ]
+      },
+      { spy, mounts }
+    ) as any
+
+    expect(spy.mock.calls).toEqual([[1], [2]])
+    expect(mounts).toHaveBeenCalledTimes(2)
+
+    list.set([5, 2])
+    await tick()
+
+    expect(spy).toHaveBeenLastCalledWith(5)
+    expect(mounts).toHaveBeenCalledTimes(2)
+  })
+
+  it('should read the nearest $provide value with $use', async () => {
+    const spy = vi.fn()
+    runLogic(
+      {
+        $provide: [
+          'api',
+          { var: 'api' },
+          {
+            __lazy: true,
+            rule: {
+              $for: [
+                [1, 2],
+                {
+                  __lazy: true,
+                  rule: { call: [{ var: 'spy' }, { call: [{ $use: 'api' }, { var: 'item' }] }] }
+                }
+              ]
+            }
+          }
+        ]
+      },
+      { spy, api: (id: number) => `fetched ${id}` }
+    )
+
+    expect(spy.mock.calls).toEqual([['fetched 1'], ['fetched 2']])
+    expect(runLogic({ $use: ['api', 'missing'] }).result).toBe('missing')
+  })
+
+  it('should contain errors in $catch and remount on reset', () => {
+    const logs: string[] = []
+    let reset = () => {}
+    const context = {
+      log: (msg: string) => logs.push(msg),
+      check: (n: number) => {
+        if (n === 1) throw new Error(`bad count ${n}`)
+        return n
+      },
+      onError: (message: string, retry: () => void) => {
+        reset = retry
+        logs.push(`caught ${message}`)
+      }
+    }
+    const { result: count, dispose } = runLogic(
+      {
+        def: [
+          'count',
+          { $state: 0 },
+          {
+            __lazy: true,
+            rule: {
+              seq: [
+                {
+                  $catch: [
+                    {
+                      __lazy: true,
+                      rule: {
+                        $effect: {
+                          __lazy: true,
+                          rule: { call: [{ var: 'log' }, { call: [{ var: 'check' }, { call: [{ var: 'count' }] }] }] }
+                        }
+                      }
+                    },
+                    { __lazy: true, rule: { call: [{ var: 'onError' }, { var: 'error.message' }, { var: 'reset' }] } }
+                  ]
+                },
+                {
+                  $effect: {
+                    __lazy: true,
+                    rule: { call: [{ var: 'log' }, { cat: ['sibling ', { call: [{ var: 'count' }] }] }] }
+                  }
+                },
+                { var: 'count' }
+              ]
+            }
+          }
+        ]
+      },
+      context
+    ) as any
+
+    count.set(1)
+    expect(logs).toEqual([0, 'sibling 0', 'sibling 1', 'caught bad count 1'])
+
+    logs.length = 0
+    count.set(2)
+    reset()
+    expect(logs).toEqual(['sibling 2', 2])
+    dispose()
+  })
+
+  it('should mount the active $machine state and drive it with $send', () => {
+    const logs: string[] = []
+    const { result: machine, dispose } = runLogic(
+      {
+        $machine: {
+          initial: 'idle',
+          states: {
+            idle: { on: { START: 'running' } },
+            running: {
+              entry: {
+                __lazy: true,
+                rule: {
+                  seq: [
+                    { call: [{ var: 'log' }, { cat: ['started by ', { var: 'payload' }] }] },
+                    { $cleanup: { __lazy: true, rule: { call: [{ var: 'log' }, 'stopped'] } } }
+                  ]
+                }
+              },
+              on: { STOP: { target: 'idle', guard: { __lazy: true, rule: { '==': [{ var: 'payload' }, 'admin'] } } } }
+            }
+          }
+        }
+      },
+      { log: (msg: string) => logs.push(msg) }
+    ) as any
+
+    expect(machine()).toBe('idle')
+    expect(exec({ $send: [{ var: 'm' }, 'START', 'cron'] }, { m: machine })).toBe(true)
+    expect(exec({ $send: [{ var: 'm' }, 'STOP', 'guest'] }, { m: machine })).toBe(false)
+    expect(machine.can('START')).toBe(false)
+    expect(() => machine.send('START')).toThrow("event 'START' is not allowed in state 'running'")
+    machine.send('STOP', 'admin')
+
+    expect(machine()).toBe('idle')
+    expect(logs).toEqual(['started by cron', 'stopped'])
+    dispose()
+  })
+
+  it('should run $interval and $timeout on the run scheduler', () => {
+    const clock = solidApi.createVirtualClock()
+    const logs: any[] = []
+    const { dispose } = runLogic(
+      {
+        def: [
+          'running',
+          { $state: true },
+          {
+            __lazy: true,
+            rule: {
+              seq: [
+                {
+                  $show: [
+                    { __lazy: true, rule: { call: [{ var: 'running' }] } },
+                    {
+                      __lazy: true,
+                      rule: {
+                        $interval: [
+                          100,
+                          {
+                            __lazy: true,
+                            rule: {
+                              seq: [
+                                { call: [{ var: 'log' }, { var: 'tick' }] },
+                                { if: [{ '==': [{ var: 'tick' }, 3] }, { $set: [{ var: 'running' }, false] }, null] }
+                              ]
+                            }
+                          }
+                        ]
+                      }
+                    }
+                  ]
+                },
+                { $timeout: [250, { __lazy: true, rule: { call: [{ var: 'log' }, 'timeout'] } }] }
+              ]
+            }
+          }
+        ]
+      },
+      { log: (msg: any) => logs.push(msg) },
+      { scheduler: clock }
+    )
+
+    clock.advance(1000)
+    expect(logs).toEqual([1, 2, 'timeout', 3])
+    expect(clock.pending()).toBe(0)
+    dispose()
+  })
+
+  it('should run the demo tree on a virtual clock', async () => {
+    const fs = await import('node:fs')
+    const path = await import('node:path')
+    const demo = JSON.parse(fs.readFileSync(path.resolve(process.cwd(), 'demo.json'), 'utf-8'))
+    const clock = solidApi.createVirtualClock()
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {})
+    const { globals, dispose } = runLogic(demo, {}, { scheduler: clock })
+
+    globals.lookup<string>('app_status')![1]('running')
+    clock.advance(1000)
+
+    const logs = log.mock.calls.map(([msg]) => String(msg))
+    log.mockRestore()
+    expect(globals.values()).toEqual({ app_status: 'finished' })
+    expect(logs.filter((msg) => msg.startsWith('Timer Tick'))).toHaveLength(5)
+    expect(logs).toContain('--- Cleaning up Timer ---')
+    expect(clock.pending()).toBe(0)
+    dispose()
+  })
+
+  it('should deliver $emit events to $on handlers', () => {
+    const logs: string[] = []
+    const { events, dispose } = runLogic(
+      {
+        seq: [
+          {
+            $on: [
+              'job:done',
+              {
+                __lazy: true,
+                rule: {
+                  seq: [
+                    { call: [{ var: 'log' }, { cat: ['finished ', { var: 'event.id' }] }] },
+                    { $emit: ['report', { var: 'event.id' }] }
+                  ]
+                }
+              }
+            ]
+          },
+          { $emit: ['job:done', { id: 1, by: 'tree' }] }
+        ]
+      },
+      { log: (msg: string) => logs.push(msg) }
+    )
+
+    events.on('report', (id) => logs.push(`reported ${id}`))
+    events.emit('job:done', { id: 2 })
+    expect(logs).toEqual(['finished 1', 'finished 2', 'reported 2'])
+
+    dispose()
+    events.emit('job:done', { id: 3 })
+    expect(logs).toHaveLength(3)
+  })
+
+  it('should snapshot $state and $global values and hydrate a new run', () => {
+    const tree = {
+      def: [
+        'count',
+        { $state: 0 },
+        {
+          __lazy: true,
+          rule: {
+            seq: [
+              { $global: ['status', 'idle'] },
+              { $for: [{ var: 'jobs' }, { __lazy: true, rule: { $state: [{ var: 'item' }, 'job'] } }] },
+              { var: 'count' }
+            ]
+          }
+        }
+      ]
+    }
+    const first = runLogic(tree, { jobs: ['build', 'test'] })
+    first.result.set(3)
+    first.globals.lookup<string>('status')![1]('running')
+
+    const saved = JSON.parse(JSON.stringify(first.snapshot()))
+    expect(saved).toEqual({
+      states: { '/def/1': 3, job: 'build', 'job#2': 'test' },
+      globals: { status: 'running' }
+    })
+    first.dispose()
+
+    const second = runLogic(tree, { jobs: ['lint'] }, { hydrate: saved })
+    expect(second.result()).toBe(3)
+    expect(second.globals.values()).toEqual({ status: 'running' })
+    expect(second.snapshot().states).toEqual({ '/def/1': 3, job: 'build' })
+    second.dispose()
+  })
+
+  it('should report mounted scopes, effect dependencies and a trace', () => {
+    const events: TraceEvent[] = []
+    const {
+      result: count,
+      inspect,
+      dispose
+    } = runLogic(
+      {
+        def: [
+          'count',
+          { $state: 0 },
+          {
+            __lazy: true,
+            rule: {
+              seq: [
+                { $effect: { __lazy: true, rule: { call: [{ var: 'count' }] } } },
+                {
+                  $show: [
+                    { __lazy: true, rule: { '>': [{ call: [{ var: 'count' }] }, 0] } },
+                    { __lazy: true, rule: { $for: [['a', 'b'], { __lazy: true, rule: null }] } },
+                    null
+                  ]
+                },
+                { var: 'count' }
+              ]
+            }
+          }
+        ]
+      },
+      {},
+      { trace: (event) => events.push(event) }
+    )
+    count.set(1)
+
+    expect(inspect()).toMatchObject({
+      kind: 'root',
+      children: [
+        { kind: '$effect', path: '/def/2/rule/seq/0', runs: 2, deps: ['state:/def/1'] },
+        {
+          kind: '$show',
+          path: '/def/2/rule/seq/1',
+          children: [{ kind: 'branch', label: 'children', children: [{ kind: '$for', children: [{}, {}] }] }]
+        }
+      ]
+    })
+    expect(printTree(inspect())).toBe(
+      [
+        'root',
+        '├─ $effect  /def/2/rule/seq/0  runs: 2  deps: state:/def/1',
+        '└─ $show  /def/2/rule/seq/1',
+        '   └─ branch  children',
+        '      └─ $for  /def/2/rule/seq/1/$show/1/rule',
+        '         ├─ item  0',
+        '         └─ item  1'
+      ].join('\n')
+    )
+
+    // The write comes first, then the effect re-runs and the $show swaps branches.
+    const afterWrite = events.slice(events.findIndex((event) => event.type === 'write'))
+    expect(afterWrite.map((event) => [event.type, 'label' in event ? event.label : undefined])).toEqual([
+      ['write', undefined],
+      ['run', undefined],
+      ['dispose', 'fallback'],
+      ['mount', 'children'],
+      ['mount', undefined],
+      ['mount', '0'],
+      ['mount', '1']
+    ])
+    expect(afterWrite[0]).toEqual({ type: 'write', signal: 'state:/def/1', prev: 0, next: 1 })
+
+    dispose()
+    expect(inspect().children).toEqual([])
+  })
+
+  it('should hot-swap changed nodes and keep the rest mounted', () => {
+    const clock = solidApi.createVirtualClock()
+    const logs: any[] = []
+    const tree: any = {
+      def: [
+        'count',
+        { $state: 0 },
+        {
+          __lazy: true,
+          rule: {
+            seq: [
+              {
+                $effect: {
+                  __lazy: true,
+                  rule: { call: [{ var: 'log' }, { cat: ['count ', { call: [{ var: 'count' }] }] }] }
+                }
+              },
+              {
+                $show: [
+                  true,
+                  {
+                    __lazy: true,
+                    rule: {
+                      $interval: [
+                        100,
+                        { __lazy: true, rule: { $set: [{ var: 'count' }, { '+': [{ call: [{ var: 'count' }] }, 1] }] } }
+                      ]
+                    }
+                  }
+                ]
+              },
+              { var: 'count' }
+            ]
+          }
+        }
+      ]
+    }
+    const handle = runLogic(tree, { log: (msg: any) => logs.push(msg) }, { scheduler: clock })
+    clock.advance(250)
+    expect(logs).toEqual(['count 0', 'count 1', 'count 2'])
+
+    // Only the effect changed: the interval and the state keep going.
+    const relabelled = structuredClone(tree)
+    relabelled.def[2].rule.seq[0].$effect.rule.call[1].cat[0] = 'now '
+    logs.length = 0
+    expect(handle.update(relabelled)).toEqual({ remounted: ['/def/2/rule/seq/0'] })
+    clock.advance(100)
+    expect(logs).toEqual(['now 2', 'now 3'])
+    expect(handle.update(structuredClone(relabelled))).toEqual({ remounted: [] })
+
+    // The interval's period is an argument of the $interval, so its enclosing $show remounts.
+    const faster = structuredClone(relabelled)
+    faster.def[2].rule.seq[1].$show[1].rule.$interval[0] = 10
+    logs.length = 0
+    expect(handle.update(faster)).toEqual({ remounted: ['/def/2/rule/seq/1'] })
+    clock.advance(30)
+    expect(logs).toEqual(['now 4', 'now 5', 'now 6'])
+    expect(clock.pending()).toBe(1)
+
+    // Changes outside every remountable node remount the whole tree.
+    const restarted = structuredClone(faster)
+    restarted.def[1].$state = 10
+    expect(handle.update(restarted)).toEqual({ remounted: [''] })
+    expect(handle.result()).toBe(10)
+    expect(clock.pending()).toBe(1)
+
+    handle.dispose()
+    expect(clock.pending()).toBe(0)
+  })
+
+  it('should mount $component instances with their own scope and reactive props', () => {
+    const clock = solidApi.createVirtualClock()
+    const logs: any[] = []
+    const say = (...parts: any[]) => ({ call: [{ var: 'log' }, { cat: parts }] })
+    const { result: every, dispose } = runLogic(
+      {
+        def: [
+          'every',
+          { $state: 100 },
+          {
+            __lazy: true,
+            rule: {
+              seq: [
+                {
+                  $component: [
+                    'Poller',
+                    ['url', 'interval'],
+                    {
+                      __lazy: true,
+                      rule: {
+                        seq: [
+                          {
+                            $interval: [
+                              { var: 'interval' },
+                              { __lazy: true, rule: say('poll ', { call: [{ var: 'url' }] }) }
+                            ]
+                          },
+                          { $cleanup: { __lazy: true, rule: say('stop ', { call: [{ var: 'url' }] }) } }
+                        ]
+                      }
+                    }
+                  ]
+                },
+                { $mount: ['Poller', ['a', { var: 'every' }]] },
+                { $mount: ['Poller', { __lazy: true, rule: ['b', 30] }] },
+                { var: 'every' }
+              ]
+            }
+          }
+        ]
+      },
+      { log: (msg: any) => logs.push(msg) },
+      { scheduler: clock }
+    )
+
+    clock.advance(100)
+    expect(logs).toEqual(['poll b', 'poll b', 'poll b', 'poll a'])
+
+    // `interval` follows the `every` state passed as a prop.
+    logs.length = 0
+    every.set(1000)
+    clock.advance(200)
+    expect(logs.filter((msg) => msg === 'poll a')).toEqual([])
+
+    logs.length = 0
+    dispose()
+    expect(logs).toEqual(['stop b', 'stop a'])
+    expect(clock.pending()).toBe(0)
+  })
+
+  it('should $import exports of other modules once per run', () => {
+    const loads: string[] = []
+    const files = createMemoryLoader({
+      'lib/poller.json': {
+        exports: {
+          Poller: {
+            $component: [
+              'Poller',
+              ['url'],
+              { __lazy: true, rule: { call: [{ var: 'log' }, { cat: ['poll ', { call: [{ var: 'url' }] }] }] } }
+            ]
+          },
+          counter: { $state: 0 },
+          greeting: { cat: ['hi from ', { $import: ['./names.json', 'name'] }] }
+        }
+      },
+      'lib/names.json': JSON.stringify({ exports: { name: 'names' } })
+    })
+    const loader = { ...files, load: (id: string) => (loads.push(id), files.load(id)) }
+    const tree = {
+      seq: [
+        { $mount: [{ $import: ['./lib/poller.json', 'Poller'] }, ['a']] },
+        { $mount: [{ $import: ['./lib/poller.json', 'Poller'] }, ['b']] },
+        { $set: [{ $import: ['./lib/poller.json', 'counter'] }, 5] },
+        [{ call: [{ $import: ['./lib/poller.json', 'counter'] }] }, { $import: ['./lib/poller.json', 'greeting'] }]
+      ]
+    }
+
+    const logs: string[] = []
+    const first = runLogic(tree, { log: (msg: string) => logs.push(msg) }, { loader, module: 'main.json' })
+    expect(logs).toEqual(['poll a', 'poll b'])
+    expect(first.result).toEqual([5, 'hi from names'])
+
+    // Another run evaluates its own exports, but modules are not read again.
+    const second = runLogic(tree, { log: (msg: string) => logs.push(msg) }, { loader, module: 'main.json' })
+    expect(second.result).toEqual([5, 'hi from names'])
+    expect(loads).toEqual(['lib/poller.json', 'lib/names.json'])
+    first.dispose()
+    second.dispose()
+  })
+
+  it('should batch $set writes and roll back failed transactions', () => {
+    const logs: string[] = []
+    const lazy = (rule: any) => ({ __lazy: true, rule })
+    const read = (name: string) => ({ call: [{ var: name }] })
+    const { result, dispose } = runLogic(
+      {
+        def: [
+          'a',
+          { $state: 0 },
+          lazy({
+            def: [
+              'b',
+              { $state: 0 },
+              lazy({
+                def: [
+                  'note',
+                  { $state: 'n0' },
+                  lazy({
+                    seq: [
+                      {
+                        $effect: lazy({
+                          call: [
+                            { var: 'log' },
+                            {
+                              cat: [
+                                read('a'),
+                                '/',
+                                read('b'),
+                                ' ',
+                                { $peek: { var: 'note' } },
+                                ' ',
+                                { $untrack: lazy(read('note')) }
+                              ]
+                            }
+                          ]
+                        })
+                      },
+                      [
+                        {
+                          lambda: lazy({
+                            $batch: lazy({
+                              seq: [
+                                { $set: [{ var: 'a' }, { '+': [read('a'), 1] }] },
+                                { $set: [{ var: 'b' }, { '+': [read('b'), 1] }] }
+                              ]
+                            })
+                          })
+                        },
+                        {
+                          lambda: lazy({
+                            $batch: [
+                              lazy({
+                                seq: [{ $set: [{ var: 'a' }, 10] }, { $set: [{ var: 'note' }, 'n1'] }, read('fail')]
+                              }),
+                              'transaction'
+                            ]
+                          })
+                        },
+                        { var: 'note' }
+                      ]
+                    ]
+                  })
+                ]
+              })
+            ]
+          })
+        ]
+      },
+      {
+        log: (msg: string) => logs.push(msg),
+        fail: () => {
+          throw new Error('nope')
         }
       }
     )
+    const [bump, move, note] = result
+    expect(logs).toEqual(['0/0 n0 n0'])
 
-    await tick()
-    expect(owner).toBeDefined()
-  })
+    // Both writes land before the effect re-runs
+    bump()
+    expect(logs).toEqual(['0/0 n0 n0', '1/1 n0 n0'])
 
-  it('should create a local state with $state', () => {
-    const { result: getter } = runLogic({ $state: 10 }) as any
-    expect(typeof getter).toBe('function')
-    expect(getter()).toBe(10)
-    expect(getter.set).toBeDefined()
-  })
+    // $peek and $untrack reads do not subscribe
+    note.set('n2')
+    expect(logs).toHaveLength(2)
 
-  it('should get value from $state', () => {
-    const { result } = runLogic({ $state: 10 }) as any
-    expect(typeof result).toBe('function')
-    expect(result()).toBe(10)
+    logs.length = 0
+    expect(() => move()).toThrow('nope')
+    expect(note()).toBe('n2')
+    expect(logs).toEqual(['1/1 n2 n2'])
+
+    expect(validateLogic({ $batch: [lazy(null), 'atomic'] }).map((d) => d.path)).toEqual(['/$batch/1'])
+    dispose()
   })
 
-  it('should share state via $global', () => {
-    runLogic(
-      {
-        $set: [{ $global: ['testKey', 5] }, 42]
+  it('should hold sandboxed runs to their policy with errors naming the rule', () => {
+    const logs: string[] = []
+    const clock = solidApi.createVirtualClock()
+    const host = {
+      log: (msg: string) => logs.push(msg),
+      wait: () => {
+        const start = performance.now()
+        while (performance.now() - start < 30);
       },
-      {}
-    )
+      api: { ping: () => 'pong', secret: () => 'secret' }
+    }
+    const run = (rule: any, policy = {}) =>
+      runLogic(rule, host, { scheduler: clock, sandbox: { allow: ['log', 'wait', 'api.ping'], ...policy } })
+    const violation = (fn: () => unknown) => {
+      try {
+        fn()
+      } catch (error) {
+        if (error instanceof SandboxError) return [error.violation, error.path]
+        throw error
+      }
+    }
+    const lazy = (rule: any) => ({ __lazy: true, rule })
 
-    createRoot((dispose) => {
-      const { Global } = solidApi
-      const [get] = Global('testKey')
-      expect(get()).toBe(42)
-      dispose()
-    })
-  })
+    // Allowed host functions and the tree's own functions can be called
+    expect(run({ seq: [{ call: [{ var: 'log' }, 'hi'] }, { call: [{ var: 'api.ping' }] }] }).result).toBe('pong')
+    expect(logs).toEqual(['hi'])
 
-  it('should run effect via $effect', async () => {
-    const spy = vi.fn()
+    // Other host functions throw when called, also later and inside $catch
+    expect(violation(() => run({ seq: [1, { call: [{ var: 'api.secret' }] }] }))).toEqual(['call', '/seq/1'])
+    expect(violation(() => run({ lambda: lazy({ call: [{ var: 'api.secret' }] }) }).result())).toEqual([
+      'call',
+      '/lambda/rule'
+    ])
+    expect(
+      violation(() =>
+        run({ $catch: [lazy({ call: [{ var: 'api.secret' }] }), lazy({ call: [{ var: 'log' }, 'caught'] })] })
+      )
+    ).toEqual(['call', '/$catch/0/rule'])
+    expect(logs).toEqual(['hi'])
 
-    runLogic(
+    // Also the own functions of class instances, maps, ...
+    class Api {
+      secret = () => 'secret'
+      ping = () => 'pong'
+    }
+    const map = Object.assign(new Map(), { secret: () => 'secret' })
+    const exposed = (rule: any, data: any) => runLogic(rule, data, { sandbox: { allow: ['api.ping'] } }).result
+    expect(exposed({ call: [{ var: 'api.ping' }] }, { api: new Api() })).toBe('pong')
+    expect(violation(() => exposed({ call: [{ var: 'api.secret' }] }, { api: new Api() }))).toEqual(['call', ''])
+    expect(violation(() => exposed({ call: [{ var: 'map.secret' }] }, { map }))).toEqual(['call', ''])
+
+    // No inherited properties through var or store paths
+    expect(violation(() => run({ def: ['s', 'abc', lazy({ var: 's.constructor.constructor' })] }))).toEqual([
+      'property',
+      '/def/2/rule'
+    ])
+    // `var` splits any path at dots: `[["s.constructor"]]` is the path "s.constructor"
+    const escape = {
+      def: ['s', { $state: 0 }, lazy({ call: [{ call: [{ var: [['s.constructor']] }, 'return typeof process'] }] })]
+    }
+    expect(violation(() => run(escape, { allow: [] }))).toEqual(['property', '/def/2/rule/call/0/call/0'])
+    expect(
+      violation(() =>
+        run({ def: ['st', { $store: { var: 'none' } }, lazy({ $setIn: [{ var: 'st' }, '__proto__.polluted', 1] })] })
+      )
+    ).toEqual(['property', '/def/2/rule'])
+    expect(({} as any).polluted).toBeUndefined()
+
+    // Imports only through the loader of the policy
+    expect(violation(() => run({ $import: ['/etc/hostname', 'x'] }))).toEqual(['import', undefined])
+    const loader = createMemoryLoader({ 'lib.json': { exports: { one: 1 } } })
+    expect(run({ $import: ['lib.json', 'one'] }, { loader }).result).toBe(1)
+
+    // Limits
+    const items = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10]
+    expect(violation(() => run({ $for: [items, lazy({ '+': [{ var: 'item' }, 1] })] }, { maxSteps: 20 }))).toEqual([
+      'steps',
+      '/$for/1/rule/+/0'
+    ])
+    const loop = {
+      def: [
+        'n',
+        { $state: 0 },
+        lazy({ $effect: lazy({ $set: [{ var: 'n' }, { '+': [{ call: [{ var: 'n' }] }, 1] }] }) })
+      ]
+    }
+    expect(violation(() => run(loop, { maxEffectDepth: 5 }))).toEqual(['effects', '/def/2/rule'])
+    expect(violation(() => run({ seq: [{ call: [{ var: 'wait' }] }, { '+': [1, 1] }] }, { timeout: 20 }))).toEqual([
+      'timeout',
+      '/seq/1'
+    ])
+
+    // Timers of the run start turns of their own, and virtual time is not wall time
+    const ticking = {
+      def: [
+        'n',
+        { $state: 0 },
+        lazy([
+          { $interval: [10, lazy({ $set: [{ var: 'n' }, { '+': [{ call: [{ var: 'n' }] }, 1] }] })] },
+          { $effect: lazy({ call: [{ var: 'n' }] }) }
+        ])
+      ]
+    }
+    const { dispose } = run(ticking, { maxEffectDepth: 3, timeout: 50 })
+    expect(() => clock.advance(1000)).not.toThrow()
+    dispose()
+  })
+
+  it('should suspend seq on $await and resume in the same scope', async () => {
+    const logs: string[] = []
+    const lazy = (rule: any) => ({ __lazy: true, rule })
+    const { result, dispose } = runLogic(
       {
-        $effect: {
-          __lazy: true,
-          rule: { call: [{ var: 'spyVar' }] }
-        }
+        def: [
+          'user',
+          { $state: null },
+          lazy({
+            seq: [
+              {
+                $catch: [
+                  lazy({ seq: [{ $await: { call: [{ var: 'fail' }] } }, { call: [{ var: 'log' }, 'unreachable'] }] }),
+                  lazy({ call: [{ var: 'log' }, { cat: ['caught ', { var: 'error.message' }] }] })
+                ]
+              },
+              { $set: [{ var: 'user' }, { $await: { call: [{ var: 'fetchUser' }, 1] } }] },
+              { call: [{ var: 'log' }, { cat: ['loaded ', { call: [{ var: 'user' }] }] }] },
+              [
+                { var: 'user' },
+                {
+                  lambda: [
+                    ['id'],
+                    lazy({
+                      seq: [
+                        { $await: { call: [{ var: 'fetchUser' }, { var: 'id' }] } },
+                        { cat: ['user ', { var: 'id' }] }
+                      ]
+                    })
+                  ]
+                }
+              ]
+            ]
+          })
+        ]
       },
-      { spyVar: spy }
+      {
+        log: (msg: string) => logs.push(msg),
+        fetchUser: async (id: number) => (id === 1 ? 'Ada' : 'Grace'),
+        fail: () => Promise.reject(new Error('offline'))
+      }
     )
 
-    await tick()
-    expect(spy).toHaveBeenCalled()
+    // Nothing after the $await has run yet
+    expect(result).toBeInstanceOf(Promise)
+    expect(logs).toEqual([])
+
+    const [user, load] = await result
+    expect(user()).toBe('Ada')
+    expect(logs).toEqual(['caught offline', 'loaded Ada'])
+
+    // Async lambdas hand the host a promise of their result
+    await expect(load(2)).resolves.toBe('user 2')
+    dispose()
   })
 
-  it('should lazy evaluate $show branches', async () => {
-    const positiveSpy = vi.fn()
-    const negativeSpy = vi.fn()
+  it('should wait on $await under control operators', async () => {
+    const logs: string[] = []
+    const later = (value: any) => ({ $await: { call: [{ var: 'later' }, value] } })
+    const log = (msg: string) => ({ call: [{ var: 'log' }, msg] })
+    const item = { $await: { var: '' } }
+    const numbers = [1, 2, 3].map((n) => Promise.resolve(n))
+    const { result } = runLogic(
+      [
+        { if: [later(false), log('yes'), later(0), 'zero', 'no'] },
+        { and: [later(true), later(0), log('unreachable')] },
+        { or: [later(''), later('first'), log('unreachable')] },
+        // Items are data contexts of their own: these are promises of 1, 2 and 3.
+        { map: [{ var: 'numbers' }, { '*': [item, 10] }] },
+        { filter: [{ var: 'numbers' }, { '%': [item, 2] }] },
+        { reduce: [{ var: 'numbers' }, { '+': [{ var: 'accumulator' }, { $await: { var: 'current' } }] }, later(10)] },
+        { some: [{ var: 'numbers' }, { '==': [item, 2] }] },
+        { all: [{ var: 'numbers' }, item] },
+        { none: [later([]), true] }
+      ],
+      {
+        log: (msg: string) => logs.push(msg),
+        later: async (value: any) => value,
+        numbers
+      }
+    )
+    // The array of rules is not an operator: each rule hands back its own promise.
+    expect(await Promise.all(result)).toEqual([
+      'no',
+      0,
+      'first',
+      [10, 20, 30],
+      [numbers[0], numbers[2]],
+      16,
+      true,
+      true,
+      true
+    ])
+    expect(logs).toEqual([])
+  })
 
-    runLogic(
+  it('should abandon continuations of disposed $show and $for scopes', async () => {
+    const logs: string[] = []
+    const lazy = (rule: any) => ({ __lazy: true, rule })
+    const waits: Record<string, (value: string) => void> = {}
+    const later = (key: string) => new Promise<string>((resolve) => (waits[key] = resolve))
+    const after = (key: string | object) => ({
+      seq: [
+        { $set: [{ var: 'status' }, { $await: { call: [{ var: 'later' }, key] } }] },
+        { call: [{ var: 'log' }, { cat: [key, ' ', { call: [{ var: 'status' }] }] }] }
+      ]
+    })
+    const { result, dispose } = runLogic(
       {
-        $show: [
-          true,
-          { __lazy: true, rule: { call: [{ var: 'pos' }] } },
-          { __lazy: true, rule: { call: [{ var: 'neg' }] } }
+        def: [
+          'status',
+          { $state: 'idle' },
+          lazy({
+            def: [
+              'open',
+              { $state: true },
+              lazy({
+                def: [
+                  'items',
+                  { $state: [{ var: 'names' }] },
+                  lazy({
+                    seq: [
+                      { $show: [lazy({ call: [{ var: 'open' }] }), lazy(after('show'))] },
+                      { $for: [{ var: 'items' }, lazy(after({ var: 'item' }))] },
+                      [{ var: 'status' }, { var: 'open' }, { var: 'items' }]
+                    ]
+                  })
+                ]
+              })
+            ]
+          })
         ]
       },
-      { pos: positiveSpy, neg: negativeSpy }
+      { log: (msg: string) => logs.push(msg), later, names: ['a', 'b'] }
     )
+    const [status, open, items] = result
+    expect(Object.keys(waits)).toEqual(['show', 'a', 'b'])
 
+    // Disposed while waiting: the rest of the branch and item never runs
+    open.set(false)
+    items.set(['a'])
+    waits.show('from show')
+    waits.b('from b')
+    waits.a('from a')
     await tick()
 
-    expect(positiveSpy).toHaveBeenCalled()
-    expect(negativeSpy).not.toHaveBeenCalled()
+    expect(logs).toEqual(['a from a'])
+    expect(status()).toBe('from a')
+    dispose()
   })
 
-  it('should iterate with $for', async () => {
-    const spy = vi.fn()
-    runLogic(
+  it('should bind named lambda params and args', () => {
+    const { result: handler } = runLogic({
+      lambda: [
+        ['msg', 'id'],
+        { __lazy: true, rule: { cat: [{ var: 'id' }, ': ', { var: 'msg' }, ' / ', { var: 'args.2' }] } }
+      ]
+    }) as any
+
+    expect(handler('hello', 7, 'extra')).toBe('7: hello / extra')
+    expect(
+      [1, 2].map(runLogic({ lambda: [['n'], { __lazy: true, rule: { '*': [{ var: 'n' }, 10] } }] }).result)
+    ).toEqual([10, 20])
+  })
+
+  it('should accept lambdas as $for and $effect bodies', async () => {
+    const logs: string[] = []
+    const { result: count, dispose } = runLogic(
       {
-        $for: [
-          [1, 2, 3],
+        def: [
+          'count',
+          { $state: 0 },
           {
             __lazy: true,
-            rule: { call: [{ var: 'spy' }, { var: 'item' }] }
+            rule: {
+              seq: [
+                {
+                  $for: [
+                    ['a', 'b'],
+                    {
+                      lambda: [
+                        ['name', 'index'],
+                        {
+                          __lazy: true,
+                          rule: {
+                            seq: [
+                              { call: [{ var: 'log' }, { cat: [{ var: 'name' }, { call: [{ var: 'index' }] }] }] },
+                              {
+                                $cleanup: {
+                                  __lazy: true,
+                                  rule: { call: [{ var: 'log' }, { cat: ['bye ', { var: 'name' }] }] }
+                                }
+                              }
+                            ]
+                          }
+                        }
+                      ]
+                    }
+                  ]
+                },
+                {
+                  $effect: {
+                    lambda: {
+                      __lazy: true,
+                      rule: { call: [{ var: 'log' }, { cat: ['count ', { call: [{ var: 'count' }] }] }] }
+                    }
+                  }
+                },
+                { var: 'count' }
+              ]
+            }
           }
         ]
       },
-      { spy }
-    )
+      { log: (msg: string) => logs.push(msg) }
+    ) as any
 
+    expect(logs).toEqual(['a0', 'b1', 'count 0'])
+
+    count.set(1)
     await tick()
-    expect(spy).toHaveBeenCalledTimes(3)
-    expect(spy).toHaveBeenCalledWith(1)
-    expect(spy).toHaveBeenCalledWith(2)
-    expect(spy).toHaveBeenCalledWith(3)
+    expect(logs).toContain('count 1')
+
+    dispose()
+    expect(logs).toContain('bye a')
+    expect(logs).toContain('bye b')
   })
 
   it('should run the Complex Integration Example via Interpreter', async () => {
@@ -320,3 +1563,377 @@ describe('interpreter', () => {
     dispose()
   })
 })
+
+describe('createInterpreter', () => {
+  it('should keep operators private to each instance', () => {
+    const a = createInterpreter()
+    const b = createInterpreter()
+
+    a.addOperation('double', (x: number) => x * 2)
+
+    expect(a.exec({ double: 21 })).toBe(42)
+    expect(b.hasOperation('double')).toBe(false)
+    expect(() => b.exec({ double: 21 })).toThrow('Unrecognized operation double')
+    expect(() => exec({ double: 21 })).toThrow('Unrecognized operation double')
+  })
+
+  it('should mount host-registered components and report unknown ones', () => {
+    const interpreter = createInterpreter()
+    const stopped: number[] = []
+    interpreter.registerComponent('Counter', ['start'], (props) => {
+      const [count] = solidApi.State(props.start())
+      solidApi.Cleanup(() => stopped.push(count()))
+      return count
+    })
+
+    const { result, dispose } = interpreter.runLogic({ $mount: ['Counter', [5]] })
+    expect(result()).toBe(5)
+    dispose()
+    expect(stopped).toEqual([5])
+
+    expect(() => interpreter.runLogic({ $mount: ['Countr', [5]] })).toThrow("Unknown component 'Countr'")
+    expect(() => createInterpreter().runLogic({ $mount: ['Counter', [5]] })).toThrow("Unknown component 'Counter'")
+  })
+
+  it('should remove operators without affecting other instances', () => {
+    const sandboxed = createInterpreter({ exclude: ['call'] })
+    const fn = vi.fn(() => 'called')
+
+    expect(() => sandboxed.exec({ call: [{ var: 'fn' }] }, { fn })).toThrow('Unrecognized operation call')
+    expect(exec({ call: [{ var: 'fn' }] }, { fn })).toBe('called')
+
+    sandboxed.removeOperation('if')
+    expect(sandboxed.hasOperation('if')).toBe(false)
+    expect(exec({ if: [true, 'yes', 'no'] })).toBe('yes')
+  })
+
+  it('should accept operators through options and bind `this` to the data context', async () => {
+    const interp = createInterpreter({
+      operations: {
+        greet: function (name: string) {
+          return `${this.greeting}, ${name}`
+        }
+      }
+    })
+
+    expect(interp.exec({ greet: 'Ada' }, { greeting: 'Hello' })).toBe('Hello, Ada')
+
+    // Built-in reactive operators are available on every instance
+    const spy = vi.fn()
+    const { dispose } = interp.runLogic(
+      { $effect: { __lazy: true, rule: { call: [{ var: 'spy' }, { greet: 'Grace' }] } } },
+      { spy, greeting: 'Hi' }
+    )
+    await tick()
+    expect(spy).toHaveBeenCalledWith('Hi, Grace')
+    dispose()
+  })
+
+  it('should evaluate standard json-logic operators like json-logic-js', () => {
+    const data = { a: 1, b: 'x', list: [1, 2, 3, 4], nested: { value: 5 }, empty: '' }
+    const rules: any[] = [
+      { '==': [1, '1'] },
+      { '===': [1, '1'] },
+      { '<': [1, { var: 'a' }, 3] },
+      { '!': [[]] },
+      { '+': ['1', 2, { var: 'nested.value' }] },
+      { '*': [2, '3'] },
+      { '-': [5] },
+      { cat: ['a', { var: 'b' }, 1] },
+      { substr: ['jsonlogic', 4, -2] },
+      { in: ['Spring', 'Springfield'] },
+      { min: [3, 1, 2] },
+      { merge: [[1], 2, [3, 4]] },
+      { var: ['missing.path', 'default'] },
+      { missing: ['a', 'nope', 'empty'] },
+      { missing_some: [1, ['a', 'nope']] },
+      { if: [{ '>': [{ var: 'a' }, 5] }, 'big', { '>': [{ var: 'a' }, 0] }, 'small', 'none'] },
+      { and: [true, 0, 'never'] },
+      { or: [false, '', 'first'] },
+      { filter: [{ var: 'list' }, { '%': [{ var: '' }, 2] }] },
+      { map: [{ var: 'list' }, { '*': [{ var: '' }, 2] }] },
+      { reduce: [{ var: 'list' }, { '+': [{ var: 'current' }, { var: 'accumulator' }] }, 10] },
+      { all: [{ var: 'list' }, { '>': [{ var: '' }, 0] }] },
+      { none: [[], { var: '' }] },
+      { some: [{ var: 'list' }, { '===': [{ var: '' }, 3] }] }
+    ]
+
+    for (const rule of rules) {
+      expect(exec(rule, data)).toEqual(jsonLogic.apply(rule, data))
+      expect(compileLogic(rule)(data)).toEqual(jsonLogic.apply(rule, data))
+    }
+  })
+
+  it('should run operators added to json-logic-js in the default instance', () => {
+    jsonLogic.add_operation('plusOne', (n: number) => n + 1)
+    // json-logic-js takes objects of sub-operations too, though its typings only admit functions.
+    jsonLogic.add_operation('Geo', { km: (m: number) => m / 1000 } as any)
+    jsonLogic.add_operation('List', { of: (...items: any[]) => items } as any)
+    jsonLogic.add_operation('own', function (this: any, key: string) {
+      return this[key]
+    })
+    try {
+      const pair = { first: 1 }
+      const rule = [
+        { plusOne: { call: [{ $state: 41 }] } },
+        { 'Geo.km': 1500 },
+        { own: 'name' },
+        // Arguments arrive evaluated once: an object with one key is not taken for a rule
+        { 'List.of': [{ var: 'pair' }] }
+      ]
+      const data = { name: 'Ada', pair }
+      expect(interpretLogic(rule, data).result).toEqual([42, 1.5, 'Ada', [pair]])
+      expect(interpretLogic(compileLogic(rule), data).result).toEqual([42, 1.5, 'Ada', [pair]])
+      expect(interpretLogic(rule, data).result[3][0]).toBe(pair)
+      expect(() => exec({ 'Geo.miles': 1 })).toThrow('Unrecognized operation Geo.miles (failed at Geo.miles)')
+
+      // Instances of their own, and sandboxed runs, only know their own operators
+      expect(() => createInterpreter().exec({ plusOne: 1 })).toThrow('Unrecognized operation plusOne')
+      expect(() => interpretLogic({ plusOne: 1 }, {}, { sandbox: {} })).toThrow('Unrecognized operation plusOne')
+    } finally {
+      for (const name of ['plusOne', 'Geo', 'List', 'own']) jsonLogic.rm_operation(name)
+    }
+  })
+})
+
+describe('compileLogic', () => {
+  it('should resolve operators once, at compile time', () => {
+    const interp = createInterpreter({ operations: { double: (x: number) => x * 2 } })
+    const compiled = interp.compileLogic({ double: { var: 'n' } })
+
+    interp.removeOperation('double')
+
+    expect(compiled({ n: 21 })).toBe(42)
+    expect(() => interp.exec({ double: 1 })).toThrow('Unrecognized operation double')
+  })
+
+  it('should only throw for unknown operators when they are reached', () => {
+    const compiled = compileLogic({ if: [{ var: 'fail' }, { nope: [] }, 'fine'] })
+
+    expect(compiled({ fail: false })).toBe('fine')
+    expect(() => compiled({ fail: true })).toThrow('Unrecognized operation nope')
+  })
+
+  it('should run compiled LazyNode bodies when re-running effects', async () => {
+    const interp = createInterpreter()
+    const rule = {
+      def: [
+        'count',
+        { $state: 0 },
+        {
+          __lazy: true,
+          rule: {
+            seq: [
+              { $effect: { __lazy: true, rule: { call: [{ var: 'spy' }, { call: [{ var: 'count' }] }] } } },
+              { var: 'count' }
+            ]
+          }
+        }
+      ]
+    }
+    const compiled = interp.compileLogic(rule)
+    const spy = vi.fn()
+
+    // Swap the operator after compiling: the compiled effect keeps the original `call`.
+    interp.addOperation('call', () => 'interpreted')
+    const { result: count } = interp.runLogic(compiled, { spy }) as any
+
+    count.set(1)
+    await tick()
+    expect(spy.mock.calls).toEqual([[0], [1]])
+  })
+
+  it('should only run compiled LazyNode bodies for runs of the compiled tree', () => {
+    const interp = createInterpreter()
+    const body = { __lazy: true, rule: 'compiled' }
+    const rule = { def: ['x', 1, body] }
+    const compiled = interp.compileLogic(rule)
+
+    // The caller keeps editing its tree after compiling it.
+    body.rule = 'edited'
+    expect(interp.exec(rule)).toBe('edited')
+    expect(interp.runLogic(rule).result).toBe('edited')
+    expect(compiled()).toBe('compiled')
+    expect(interp.runLogic(compiled).result).toBe('compiled')
+  })
+})
+
+describe('validateLogic', () => {
+  it('should accept the demo tree', async () => {
+    const fs = await import('node:fs')
+    const path = await import('node:path')
+    const demo = JSON.parse(fs.readFileSync(path.resolve(process.cwd(), 'demo.json'), 'utf-8'))
+    expect(validateLogic(demo)).toEqual([])
+  })
+
+  it('should report non-lazy branches with JSON pointers', () => {
+    const diagnostics = validateLogic({
+      def: [
+        'status',
+        { $state: 'idle' },
+        { __lazy: true, rule: [{ log: 'start' }, { $show: [true, { log: 'eager!' }] }] }
+      ]
+    })
+
+    expect(diagnostics).toEqual([
+      {
+        severity: 'error',
+        path: '/def/2/rule/1/$show/1',
+        message: "Argument 1 of '$show' must be a LazyNode, got an object",
+        suggestion: 'Wrap it as { "__lazy": true, "rule": ... }'
+      }
+    ])
+  })
+
+  it('should report plain $effect values, unknown operators, arity and names', () => {
+    const diagnostics = validateLogic({
+      seq: [
+        { $effect: 42 },
+        { $shw: [true, { __lazy: true, rule: null }] },
+        { def: [1, 2, { __lazy: true, rule: 3 }] },
+        { '==': [1] }
+      ]
+    })
+
+    expect(diagnostics.map((d) => [d.path, d.message, d.suggestion])).toEqual([
+      [
+        '/seq/0/$effect',
+        "Argument 0 of '$effect' must be a LazyNode or a function, got a number",
+        'Wrap it as { "__lazy": true, "rule": ... }'
+      ],
+      ['/seq/1/$shw', "Unknown operator '$shw'", "Did you mean '$show'?"],
+      ['/seq/2/def/0', "Argument 0 of 'def' must be a string, got a number", undefined],
+      ['/seq/3/==', "'==' expects 2 arguments, got 1", undefined]
+    ])
+  })
+
+  it('should accept computed keys, topics and events', () => {
+    const computed = {
+      seq: [
+        { $global: [{ cat: ['user_', { var: 'id' }] }, 1] },
+        { $emit: [{ var: 'topic' }, 1] },
+        { $use: [{ var: 'key' }] },
+        { $use: [7] }
+      ]
+    }
+    expect(validateLogic(computed)).toEqual([
+      { severity: 'warning', path: '/seq/3/$use/0', message: "Argument 0 of '$use' should be a string, got a number" }
+    ])
+    const { result, globals } = interpretLogic(computed, { id: 1, topic: 'saved', key: 'theme' }, { validate: true })
+    expect(result).toBeUndefined()
+    expect(globals.keys()).toEqual(['user_1'])
+    // Names bound in the tree stay literal
+    expect(validateLogic({ def: [{ var: 'name' }, 1, { __lazy: true, rule: null }] })[0].message).toBe(
+      "Argument 0 of 'def' must be a string, got an object"
+    )
+  })
+
+  it('should check $switch cases and lambda shapes', () => {
+    const diagnostics = validateLogic({
+      seq: [
+        { $switch: [[[true, { log: 'x' }], 'oops']] },
+        { lambda: [['a', 1], { __lazy: true, rule: null }] },
+        { lambda: { var: 'x' } }
+      ]
+    })
+
+    expect(diagnostics.map((d) => d.path)).toEqual([
+      '/seq/0/$switch/0/0/1',
+      '/seq/0/$switch/0/1',
+      '/seq/1/lambda/0',
+      '/seq/2/lambda'
+    ])
+  })
+
+  it('should check $machine states and transitions', () => {
+    expect(
+      validateLogic({
+        $machine: {
+          initial: 'idle',
+          states: { idle: { on: { GO: 'gone' }, entry: { log: 'eager' } } }
+        }
+      })
+    ).toEqual([
+      {
+        severity: 'error',
+        path: '/$machine/states/idle/entry',
+        message: "The entry of state 'idle' must be a LazyNode",
+        suggestion: 'Wrap it as { "__lazy": true, "rule": ... }'
+      },
+      {
+        severity: 'error',
+        path: '/$machine/states/idle/on/GO',
+        message: "Event 'GO' of state 'idle' targets unknown state 'gone'"
+      }
+    ])
+  })
+
+  it('should use specs of custom operators', () => {
+    const interp = createInterpreter({
+      operations: { every: () => undefined },
+      specs: { every: { arity: [2, 2], lazy: [1] } }
+    })
+
+    expect(interp.validateLogic({ every: [100, { __lazy: true, rule: null }] })).toEqual([])
+    expect(interp.validateLogic({ every: [100, { log: 'tick' }] })[0].path).toBe('/every/1')
+    expect(validateLogic({ every: [] })[0].message).toBe("Unknown operator 'every'")
+  })
+
+  it('should refuse to run invalid trees when asked to', () => {
+    const spy = vi.fn()
+    const rule = { $show: [true, { call: [{ var: 'spy' }] }] }
+
+    expect(() => interpretLogic(rule, { spy }, { validate: true })).toThrow(LogicValidationError)
+    expect(spy).not.toHaveBeenCalled()
+
+    try {
+      interpretLogic(rule, { spy }, { validate: true })
+    } catch (err) {
+      expect((err as LogicValidationError).diagnostics[0].path).toBe('/$show/1')
+    }
+  })
+})
+
+describe('modules', () => {
+  it('should report missing modules, missing exports, invalid modules and cycles before running', () => {
+    const loader = createMemoryLoader({
+      'a.json': { exports: { value: { $import: ['./b.json', 'value'] } } },
+      'b.json': { exports: { value: { $import: ['./a.json', 'value'] } } },
+      'bad.json': { exports: { broken: { $show: [true, 'not lazy'] } } },
+      'text.json': '{ "exports": ',
+      'ok.json': { exports: { value: 1 } }
+    })
+    const run = (rule: any) => () => interpretLogic(rule, {}, { loader, module: 'main.json' })
+
+    expect(run({ $import: ['./a.json', 'value'] })).toThrow('Import cycle: a.json -> b.json -> a.json')
+    expect(run({ $import: './main.json' })).toThrow('Import cycle: main.json -> main.json')
+    expect(run({ $import: ['./ok.json', 'other'] })).toThrow("Module 'ok.json' has no export 'other'")
+    expect(run({ $import: './nope.json' })).toThrow(
+      "Cannot load module 'nope.json' (imported by 'main.json'): No such module"
+    )
+    expect(run({ $import: './text.json' })).toThrow(
+      /^Cannot load module 'text.json' \(imported by 'main.json'\): not valid JSON$/
+    )
+
+    try {
+      run({ $import: './bad.json' })()
+      expect.unreachable()
+    } catch (error) {
+      expect(error).toBeInstanceOf(LogicValidationError)
+      expect((error as LogicValidationError).source).toBe('bad.json')
+      expect((error as LogicValidationError).diagnostics[0].path).toBe('/exports/broken/$show/1')
+    }
+  })
+
+  it('should need a loader only for trees that import', () => {
+    expect(interpretLogic({ '+': [1, 2] }).result).toBe(3)
+    expect(() => interpretLogic({ $import: ['./a.json', 'value'] })).toThrow(
+      "Cannot import './a.json': the run has no module loader"
+    )
+
+    const loader = createMemoryLoader({})
+    expect(loader.resolve('../shared/./b.json', 'app/pages/main.json')).toBe('app/shared/b.json')
+    expect(loader.resolve('/lib/c.json', 'app/main.json')).toBe('lib/c.json')
+    expect(loader.resolve('./a.json')).toBe('a.json')
+  })
+})
@@ -1,6 +1,37 @@
 import jsonLogic from 'json-logic-js'
-import { createRoot } from 'solid-js'
+import { createRoot, getOwner, onCleanup, runWithOwner, untrack, type Accessor, type Owner } from 'solid-js'
 import * as Solid from './solid'
+import {
+  controlOperations,
+  jsonLogicOperation,
+  standardOperations,
+  standardSpecs,
+  truthy,
+  varKeys,
+  type ControlOperator,
+  type Operator,
+  type Suspend
+} from './operations'
+import { compileRule, provideCompiledBodies, useCompiledBodies, type Compiled, type CompiledBodies } from './compile'
+import { createSwapTable, diffRules, provideSwapTable, useSwapTable } from './hotswap'
+import {
+  createModuleGraph,
+  noLoader,
+  provideModuleScope,
+  useModuleScope,
+  type ModuleGraph,
+  type ModuleLoader
+} from './modules'
+import {
+  createInspector,
+  provideInspector,
+  useInspector,
+  type InspectNode,
+  type Inspector,
+  type TraceEvent
+} from './inspect'
+import { createSandbox, deniedLoader, provideSandbox, SandboxError, useSandbox, type SandboxPolicy } from './sandbox'
+import { LogicValidationError, pointer, validateRule, type Diagnostic, type OperatorSpec } from './validate'
 
 // --- Types ---
 export type LogicRule = object | string | number | boolean | any[] | null
@@ -11,178 +42,1331 @@ export interface LazyNode {
   rule: LogicRule
 }
 
-function isLazyNode(node: any): node is LazyNode {
+export function isLazyNode(node: any): node is LazyNode {
   return node && typeof node === 'object' && '__lazy' in node && node.__lazy === true && 'rule' in node
 }
 
-// --- Context Management ---
-let currentContext: DataContext = {}
+export { jsonLogicOperation, type Operator } from './operations'
+export { LogicValidationError, type Diagnostic, type OperatorSpec } from './validate'
+export { printTree, type InspectNode, type TraceEvent } from './inspect'
+export { createMemoryLoader, type LogicModule, type ModuleLoader } from './modules'
+export { SandboxError, type SandboxPolicy, type SandboxViolation } from './sandbox'
+
+export interface InterpreterOptions {
+  /** Extra operators for this instance. Overrides built-ins with the same name. */
+  operations?: Record<string, Operator>
+  /** Argument specs for the extra operators, used by `validateLogic`. */
+  specs?: Record<string, OperatorSpec>
+  /** Names of built-in operators to leave out of this instance. */
+  exclude?: string[]
+  /**
+   * Resolves operators the instance does not define when a tree applies them, e.g. `jsonLogicOperation`
+   * for the default instance. Sandboxed runs never use it.
+   */
+  fallback?: (op: string) => Operator | undefined
+}
+
+export interface RunOptions {
+  /**
+   * Parent registry for `$global` lookups. Keys it defines are shared with every run
+   * given the same registry; keys created by the run itself stay private to the run.
+   */
+  sharedGlobals?: Solid.GlobalRegistry
+  /**
+   * Event bus for `$emit`/`$on`. Pass the same bus to several runs to connect them.
+   * Defaults to a bus owned by the run.
+   */
+  events?: Solid.EventBus
+  /** Clock for `$interval`/`$timeout`, e.g. a virtual clock from `createVirtualClock` in tests. */
+  scheduler?: Solid.Scheduler
+  /** Keep the tree of mounted scopes so `inspect()` can return it. */
+  inspect?: boolean
+  /** Receives mount, dispose, effect run and signal write events. Implies `inspect`. */
+  trace?: (event: TraceEvent) => void
+  /**
+   * Values from an earlier run's `snapshot()`.
+   * Signals with a saved value start from it instead of the JSON initial.
+   */
+  hydrate?: LogicSnapshot
+  /** Validate the tree first and throw a `LogicValidationError` instead of running it if it has errors. */
+  validate?: boolean
+  /**
+   * Where `$import` finds modules, e.g. `createFileLoader()` from `fileLoader.ts` in Node.
+   * Without one, trees that import anything throw.
+   */
+  loader?: ModuleLoader
+  /** Module id of the tree being run (e.g. `app/main.json`). Its relative imports resolve against it. */
+  module?: string
+  /**
+   * Limits for trees from untrusted sources: callable host functions, no inherited properties
+   * through `var` and store paths, a step budget, effect re-runs and time per turn.
+   * Breaking one throws a `SandboxError`. Sandboxed runs are always interpreted.
+   */
+  sandbox?: SandboxPolicy
+}
+
+export interface LogicHandle {
+  result: any
+  dispose: () => void
+  /** The run's global registry. Use `keys()`/`values()` to inspect it. */
+  globals: Solid.GlobalRegistry
+  /** The run's event bus. Use it to emit events into the run or to listen to events it emits. */
+  events: Solid.EventBus
+  /** Current values of the run's `$state` and `$global` signals. JSON-serializable if the values are. */
+  snapshot: () => LogicSnapshot
+  /** The mounted scopes with their rule paths and effect dependencies. Needs `{ inspect: true }` or `trace`. */
+  inspect: () => InspectNode
+  /**
+   * Swaps in a new tree while the run keeps going. Unchanged subtrees stay mounted with their
+   * state and timers; the `$show`/`$switch`/`$for`/`$index`/`$effect`/`$catch` nodes that changed
+   * are remounted. Changes outside all of them remount the whole tree and update `result`.
+   */
+  update: (rule: LogicRule | CompiledLogic) => LogicUpdate
+  /**
+   * Evaluates `rule` against the running tree: with its data context, globals, events and sandbox.
+   * Scopes the rule mounts (effects, timers, ...) belong to the run and are disposed with it.
+   */
+  evaluate: (rule: LogicRule) => any
+}
+
+/** What `LogicHandle.update` did. */
+export interface LogicUpdate {
+  /** JSON pointers of the remounted nodes, `''` for the whole tree. Empty when nothing mounted changed. */
+  remounted: string[]
+}
+
+/** Saved signal values of a run: `$state` values by name or tree path, `$global` values by key. */
+export interface LogicSnapshot {
+  states: Record<string, unknown>
+  globals: Record<string, unknown>
+}
+
+/** A logic tree compiled to closures. Call it with a data context, or pass it to `runLogic`. */
+export type CompiledLogic = ((data?: DataContext) => any) & { rule: LogicRule }
+
+export interface Interpreter {
+  exec: (logic: LogicRule, data?: DataContext) => any
+  runLogic: (json: LogicRule | CompiledLogic, initialData?: DataContext, runOptions?: RunOptions) => LogicHandle
+  addOperation: (name: string, fn: Operator, spec?: OperatorSpec) => void
+  removeOperation: (name: string) => void
+  hasOperation: (name: string) => boolean
+  /**
+   * Defines a component every run of this instance can `$mount`. It receives one accessor per
+   * param and runs in its own scope. Components defined with `$component` in a run shadow it.
+   */
+  registerComponent: (name: string, params: string[], component: (props: Solid.ComponentProps) => any) => void
+  validateLogic: (rule: LogicRule) => Diagnostic[]
+  compileLogic: (rule: LogicRule) => CompiledLogic
+}
+
+// --- Async ---
+
+// Promises produced by `$await`, and by the operators and `seq`s waiting on one.
+const awaiting = new WeakSet<Promise<any>>()
+
+const awaited = <T>(promise: Promise<T>) => {
+  awaiting.add(promise)
+  return promise
+}
+
+const isAwaited = (value: any): value is Promise<any> => value instanceof Promise && awaiting.has(value)
+
+// Checked for every operator applied, so kept to a plain loop.
+const pending = (args: any[]) => {
+  for (let i = 0; i < args.length; i++) if (isAwaited(args[i])) return true
+  return false
+}
+
+// --- Validation Checks ---
+
+// Operators `update` can remount on their own: their scopes hand nothing back to the parent.
+// Copies the plain objects and arrays of a store's initial value. Anything else (functions, dates,
+// class instances) is kept as it is: Solid does not wrap it, and cloning would throw or drop its prototype.
+const copyPlain = (value: any): any => {
+  if (Array.isArray(value)) return value.map(copyPlain)
+  if (value === null || typeof value !== 'object') return value
+  const proto = Object.getPrototypeOf(value)
+  if (proto !== Object.prototype && proto !== null) return value
+  const copy = Object.fromEntries(Object.entries(value).map(([key, item]) => [key, copyPlain(item)]))
+  return proto === null ? Object.setPrototypeOf(copy, null) : copy
+}
+
+const REMOUNTABLE = new Set(['$show', '$switch', '$for', '$index', '$effect', '$catch'])
+
+const checkSwitchCases: OperatorSpec['check'] = ([cases], report) => {
+  if (!Array.isArray(cases)) return report([0], "'$switch' expects an array of [condition, LazyNode] cases")
+  cases.forEach((c, i) => {
+    if (!Array.isArray(c) || c.length !== 2) {
+      report([0, i], `Case ${i} of '$switch' must be a [condition, LazyNode] pair`)
+    } else if (!isLazyNode(c[1])) {
+      report(
+        [0, i, 1],
+        `Case ${i} of '$switch' must have a LazyNode branch`,
+        'Wrap it as { "__lazy": true, "rule": ... }'
+      )
+    }
+  })
+}
+
+const checkLambda: OperatorSpec['check'] = (args, report) => {
+  if (args.length === 2 && (!Array.isArray(args[0]) || args[0].some((p: any) => typeof p !== 'string'))) {
+    report([0], "'lambda' params must be an array of names")
+  }
+  if (!isLazyNode(args[args.length - 1])) {
+    report([args.length - 1], "The body of 'lambda' must be a LazyNode", 'Wrap it as { "__lazy": true, "rule": ... }')
+  }
+}
+
+const checkComponent: OperatorSpec['check'] = ([, params], report) => {
+  if (!Array.isArray(params) || params.some((p: any) => typeof p !== 'string')) {
+    report([1], "'$component' params must be an array of names")
+  }
+}
+
+const checkBatch: OperatorSpec['check'] = ([, mode], report) => {
+  if (mode !== undefined && mode !== 'transaction') {
+    report([1], `Unknown '$batch' mode '${mode}'`, "Use 'transaction' or leave the mode out")
+  }
+}
+
+const checkMachine: OperatorSpec['check'] = ([config], report) => {
+  if (
+    !config ||
+    typeof config !== 'object' ||
+    typeof config.initial !== 'string' ||
+    !config.states ||
+    typeof config.states !== 'object'
+  ) {
+    return report([0], '\'$machine\' expects { "initial": <state>, "states": { ... } }')
+  }
+  const states = config.states
+  if (!(config.initial in states)) report([0, 'initial'], `Unknown initial state '${config.initial}'`)
+  for (const [name, state] of Object.entries<any>(states)) {
+    if (state.entry !== undefined && !isLazyNode(state.entry)) {
+      report(
+        [0, 'states', name, 'entry'],
+        `The entry of state '${name}' must be a LazyNode`,
+        'Wrap it as { "__lazy": true, "rule": ... }'
+      )
+    }
+    for (const [event, transition] of Object.entries<any>(state.on ?? {})) {
+      const target = typeof transition === 'string' ? transition : transition?.target
+      if (!(target in states)) {
+        report(
+          [0, 'states', name, 'on', event],
+          `Event '${event}' of state '${name}' targets unknown state '${target}'`
+        )
+      }
+    }
+  }
+}
 
 /**
- * Execute logic with a specific context.
- * This wraps jsonLogic.apply to ensure we track the current context
- * so custom operators can access it (e.g. for creating closures).
+ * Creates an isolated interpreter instance.
+ * Each instance owns its operator registry and context stack, so operators added to
+ * or removed from one instance never affect another.
  *
- * @param logic - The JSON Logic rule(s) to execute.
- * @param data - The data context for execution.
- * @returns The result of the execution.
+ * @param options - Extra operators and built-ins to exclude.
+ * @returns The instance's `exec`/`runLogic` and registry methods.
  */
-export function exec(logic: LogicRule, data: DataContext = {}) {
-  const prevContext = currentContext
-  currentContext = data
-  try {
-    if (isLazyNode(logic)) {
-      // If we are asked to exec a lazy node directly (unwrapping it), we just run the rule.
-      return exec(logic.rule, data)
+export function createInterpreter(options: InterpreterOptions = {}): Interpreter {
+  const operations = new Map<string, Operator>(Object.entries(standardOperations))
+  const controls = new Map<string, ControlOperator>(Object.entries(controlOperations))
+  const specs = new Map<string, OperatorSpec>(Object.entries(standardSpecs))
+
+  // --- Context Management ---
+  let currentContext: DataContext = {}
+
+  // Bodies of the LazyNodes of each tree compiled by `compileLogic`. `exec` runs them instead of
+  // re-interpreting the rule only while that tree runs: in a run started from it, or when it is called
+  // outside of any run (`calling`).
+  const compiledBodies = new WeakMap<CompiledLogic, CompiledBodies>()
+  let calling: CompiledBodies | undefined
+
+  // The operator node being applied, and JSON pointers of the nodes of trees passed to `runLogic`.
+  // `$state` uses them to give unnamed signals a stable id for snapshots.
+  let currentNode: object | undefined
+  const nodePaths = new WeakMap<object, string>()
+
+  // Trees given to `update` are re-indexed (`force`): nodes they share with the old tree may have moved.
+  const indexPaths = (node: any, path: (string | number)[], force = false): void => {
+    if (node === null || typeof node !== 'object' || (!force && nodePaths.has(node))) return
+    nodePaths.set(node, pointer(path))
+    if (Array.isArray(node)) return node.forEach((child, i) => indexPaths(child, [...path, i], force))
+    if (isLazyNode(node)) return indexPaths(node.rule, [...path, 'rule'], force)
+    if (!jsonLogic.is_logic(node)) return
+    const op = jsonLogic.get_operator(node as any)
+    const raw = (node as any)[op]
+    if (Array.isArray(raw)) raw.forEach((arg, i) => indexPaths(arg, [...path, op, i], force))
+    else indexPaths(raw, [...path, op], force)
+  }
+
+  const here = () => (currentNode ? nodePaths.get(currentNode) : undefined)
+
+  // --- Sandboxing ---
+
+  // Live sandboxed runs. While there are none, operators skip the sandbox lookup.
+  let sandboxed = 0
+
+  const sandboxOf = () => (sandboxed ? useSandbox() : undefined)
+
+  // In a sandboxed run, store paths may not go through inherited properties (`__proto__`, `constructor`, ...).
+  const checkStorePath = (store: any, path: any) => sandboxOf()?.read(store, path, here())
+
+  // --- Async ---
+
+  // Whether the scope an `$await` happened in is gone, per owner and run of the owner.
+  const lifetimes = new WeakMap<Owner, { ended: boolean }>()
+
+  const lifetime = (owner: Owner | null) => {
+    if (!owner) return { ended: false }
+    let life = lifetimes.get(owner)
+    if (!life) {
+      const current = { ended: false }
+      lifetimes.set(owner, current)
+      // Runs when the owner is disposed, and before a computation re-runs.
+      onCleanup(() => {
+        current.ended = true
+        lifetimes.delete(owner)
+      })
+      life = current
     }
-    return jsonLogic.apply(logic as any, data)
-  } finally {
-    currentContext = prevContext
-  }
-}
-
-// --- Custom Operators ---
-
-// $state: Returns the getter. Attach setter to it.
-jsonLogic.add_operation('$state', function (initialValue: any) {
-  const [get, set] = Solid.State(initialValue)
-  const getter = get as any
-  getter.set = set
-  return getter
-})
-
-// $global: Wraps Global
-jsonLogic.add_operation('$global', function (key: string, initial: any) {
-  const [get, set] = Solid.Global(key, initial)
-  const getter = get as any
-  getter.set = set
-  return getter
-})
-
-// $set: ref.set(val)
-jsonLogic.add_operation('$set', function (ref: any, value: any) {
-  if (ref && typeof ref.set === 'function') {
-    return ref.set(value)
-  }
-  return undefined
-})
-
-// $effect: Effect(rule)
-// usage: { "$effect": { "__lazy": true, "rule": ... } }
-jsonLogic.add_operation('$effect', function (lazyOrValue: any) {
-  const ctx = currentContext
-  Solid.Effect(() => {
-    if (isLazyNode(lazyOrValue)) {
-      exec(lazyOrValue.rule, ctx)
-    } else {
-      // If passed a non-lazy value, it does nothing reactivity-wise unless the value itself is reactive?
-      // But jsonLogic evaluates args before passing.
-      // So we really expect a LazyNode block for effects.
+    return life
+  }
+
+  // Calls `fn` with the settled value of `promise` in the scope and data context it was awaited in,
+  // where the rest of the evaluation would have run. Errors go to the scope's `$catch`, if any.
+  // Once the scope is disposed (or re-runs), `fn` never runs and the result settles to `undefined`.
+  const resume = <T>(promise: Promise<any>, data: DataContext, fn: (value: any) => T) => {
+    const owner = getOwner()
+    const life = lifetime(owner)
+    const run = (body: () => T) => {
+      if (life.ended) return undefined
+      const prevContext = currentContext
+      currentContext = data
+      try {
+        return owner ? runWithOwner(owner, body) : body()
+      } finally {
+        currentContext = prevContext
+      }
     }
-  })
-})
-
-// $cleanup: Cleanup(rule)
-jsonLogic.add_operation('$cleanup', function (lazyNode: any) {
-  const ctx = currentContext
-  Solid.Cleanup(() => {
-    if (isLazyNode(lazyNode)) {
-      exec(lazyNode.rule, ctx)
+    return awaited(
+      promise.then(
+        (value) => run(() => fn(value)),
+        (error) =>
+          run(() => {
+            throw error
+          })
+      )
+    )
+  }
+
+  // How operators, control operators and compiled trees wait on `$await`.
+  const suspend: Suspend = { pending, resume: (args, data, run) => resume(Promise.all(args), data, run) }
+
+  // --- Inspection ---
+  // No-ops unless the run was started with `inspect` or `trace`.
+
+  // Mounts an inspector node for the operator being applied.
+  const scope = (inspector: Inspector | undefined, kind: string, label?: string, tracking?: boolean) =>
+    inspector?.mount(kind, here(), label, tracking)
+
+  const within = <T>(inspector: Inspector | undefined, node: InspectNode | undefined, fn: () => T): T =>
+    inspector && node ? inspector.within(node, fn) : fn()
+
+  // Runs `fn` in a new child of `parent`, e.g. a mounted branch or list item.
+  const mounted = <T>(
+    inspector: Inspector | undefined,
+    parent: InspectNode | undefined,
+    kind: string,
+    label: string,
+    fn: () => T
+  ): T =>
+    inspector && parent
+      ? inspector.within(parent, () => inspector.within(inspector.mount(kind, undefined, label), fn))
+      : fn()
+
+  // Returns the getter, with `.set` attached when given. In an inspected run, reads are recorded and writes traced.
+  const traced = (inspector: Inspector | undefined, signal: string, get: Accessor<any>, set?: (value: any) => any) => {
+    const getter: any = inspector
+      ? () => {
+          inspector.read(signal)
+          return get()
+        }
+      : get
+    if (set) {
+      getter.set = inspector
+        ? (value: any) => {
+            // Traced before the write, so the trace lists it ahead of the effects it triggers.
+            const prev = untrack(get)
+            const next = typeof value === 'function' ? value(prev) : value
+            inspector.write(signal, prev, next)
+            return set(() => next)
+          }
+        : set
     }
-  })
-})
-
-// $show: Show(when, children, fallback)
-jsonLogic.add_operation('$show', function (when: any, childrenLazy: any, fallbackLazy: any) {
-  const ctx = currentContext
-  return Solid.Show(
-    () => (isLazyNode(when) ? exec(when.rule, ctx) : when),
-    () => {
-      if (isLazyNode(childrenLazy)) return exec(childrenLazy.rule, ctx)
-      return childrenLazy
-    },
-    () => {
-      if (isLazyNode(fallbackLazy)) return exec(fallbackLazy.rule, ctx)
-      return fallbackLazy
+    return getter
+  }
+
+  // Mounts a remountable operator node of a run through the run's swap table, so `update` can
+  // remount it with the node at the same path in a new tree. `run` calls the operator with the
+  // original node's arguments, evaluated by the caller so the enclosing scope tracks them as usual.
+  // A swapped-in node evaluates its arguments in the new scope instead, which remounts when they change.
+  const mountSlot = (logic: object, data: DataContext, run: () => any) => {
+    const table = useSwapTable()
+    const path = nodePaths.get(logic)
+    if (!table || path === undefined) return run()
+    const mounted = table.mount(path, logic, (node) => {
+      const prevContext = currentContext
+      currentContext = data
+      try {
+        return node === logic ? run() : apply(node as LogicRule, data, false)
+      } finally {
+        currentContext = prevContext
+      }
+    })
+    return untrack(mounted)
+  }
+
+  /**
+   * Evaluate a rule against a data context using this instance's operators.
+   * Mirrors jsonLogic.apply: arrays are mapped, non-logic values are returned as-is,
+   * and operator arguments are evaluated depth-first unless the operator is a control operator.
+   */
+  function apply(logic: LogicRule, data: DataContext, slot = true): any {
+    if (Array.isArray(logic)) return logic.map((l) => apply(l, data))
+    if (!jsonLogic.is_logic(logic)) return logic
+
+    const op = jsonLogic.get_operator(logic as any)
+    let values = (logic as any)[op]
+    if (!Array.isArray(values)) values = [values]
+
+    const sandbox = sandboxOf()
+    if (sandbox) sandbox.step(nodePaths.get(logic as object))
+
+    const control = controls.get(op)
+    if (control) return control(apply, values, data, suspend)
+
+    const operator = operations.get(op) ?? (sandboxOf() ? undefined : options.fallback?.(op))
+    if (!operator) throw new Error(`Unrecognized operation ${op}`)
+    const args = values.map((v: LogicRule) => apply(v, data))
+    if (pending(args))
+      return resume(Promise.all(args), data, (settled) => invoke(logic, op, operator, settled, data, slot))
+    return invoke(logic, op, operator, args, data, slot)
+  }
+
+  // Applies the operator of node `logic` to its evaluated arguments.
+  function invoke(logic: any, op: string, operator: Operator, args: any[], data: DataContext, slot: boolean) {
+    currentNode = logic
+    // `var` reads `String(path)` split at dots, whatever the path is: check the keys it will follow.
+    if (sandboxed && op === 'var') sandboxOf()?.read(data, varKeys(args[0]), here())
+    if (slot && REMOUNTABLE.has(op)) return mountSlot(logic, data, () => operator.apply(data, args))
+    return operator.apply(data, args)
+  }
+
+  /**
+   * Execute logic with a specific context.
+   * This wraps the evaluator to ensure we track the current context
+   * so custom operators can access it (e.g. for creating closures).
+   *
+   * @param logic - The JSON Logic rule(s) to execute.
+   * @param data - The data context for execution.
+   * @returns The result of the execution.
+   */
+  function exec(logic: LogicRule, data: DataContext = {}) {
+    const prevContext = currentContext
+    currentContext = data
+    try {
+      if (isLazyNode(logic)) {
+        // If we are asked to exec a lazy node directly (unwrapping it), we just run the rule,
+        // or its compiled body when it belongs to the compiled tree running (sandboxed runs interpret it).
+        const bodies = useCompiledBodies() ?? calling
+        const compiled = bodies && !sandboxOf() ? bodies(logic) : undefined
+        if (compiled) return compiled(data)
+        return exec(logic.rule, data)
+      }
+      return apply(logic, data)
+    } finally {
+      currentContext = prevContext
+    }
+  }
+
+  function addOperation(name: string, fn: Operator, spec?: OperatorSpec) {
+    controls.delete(name)
+    operations.set(name, fn)
+    if (spec) specs.set(name, spec)
+    else specs.delete(name)
+  }
+
+  function removeOperation(name: string) {
+    controls.delete(name)
+    operations.delete(name)
+    specs.delete(name)
+  }
+
+  const hasOperation = (name: string) => operations.has(name) || controls.has(name)
+
+  // Components registered on the instance. Each run defines its own on top of them.
+  const components = Solid.createComponentRegistry()
+
+  // Module graphs by loader: each module is parsed and validated once per interpreter and loader.
+  const graphs = new WeakMap<ModuleLoader, ModuleGraph>()
+
+  const moduleGraph = (loader: ModuleLoader = noLoader) => {
+    let graph = graphs.get(loader)
+    if (!graph) graphs.set(loader, (graph = createModuleGraph(loader, validateLogic)))
+    return graph
+  }
+
+  function registerComponent(name: string, params: string[], component: (props: Solid.ComponentProps) => any) {
+    components.define(name, { params, component })
+  }
+
+  /**
+   * Compiles a logic tree into closures ahead of time. Operators are resolved once,
+   * `var` paths are pre-split and every LazyNode body is compiled, so effects, branches
+   * and items re-run closures instead of re-interpreting their rules.
+   * Operators added or removed after compiling do not affect the compiled tree.
+   *
+   * @param rule - The JSON Logic tree to compile.
+   * @returns A function running the tree against a data context, like `exec`.
+   */
+  function compileLogic(rule: LogicRule): CompiledLogic {
+    const lazies = new WeakMap<LazyNode, Compiled>()
+    const bodies: CompiledBodies = (node) => lazies.get(node)
+    const body = compileRule(rule, {
+      operation: (op) => operations.get(op) ?? options.fallback?.(op),
+      control: (op) => controls.get(op),
+      lazy: (node, compiled) => lazies.set(node, compiled),
+      enter: (node) => (currentNode = node),
+      mount: (op, node) => (REMOUNTABLE.has(op) ? (data, run) => mountSlot(node, data, run) : undefined),
+      ...suspend
+    })
+    const run = (data: DataContext = {}) => {
+      const prevContext = currentContext
+      const prevBodies = calling
+      currentContext = data
+      calling = bodies
+      try {
+        return body(data)
+      } finally {
+        currentContext = prevContext
+        calling = prevBodies
+      }
     }
+    const compiled = Object.assign(run, { rule })
+    compiledBodies.set(compiled, bodies)
+    return compiled
+  }
+
+  /**
+   * Statically checks a logic tree against this instance's operators (arity,
+   * LazyNode arguments, names) without running it.
+   *
+   * @param rule - The logic tree to check.
+   * @returns Diagnostics with JSON pointers into `rule`. Empty when the tree is valid.
+   */
+  function validateLogic(rule: LogicRule): Diagnostic[] {
+    const names = [...operations.keys(), ...controls.keys()]
+    return validateRule(rule, (op) => (hasOperation(op) ? (specs.get(op) ?? {}) : undefined), names)
+  }
+
+  // --- Custom Operators ---
+
+  // $state: Returns the getter. Attach setter to it.
+  // usage: { "$state": <initial> } or { "$state": [<initial>, "name"] }
+  // Snapshots identify the signal by its name, or by its path in the tree passed to `runLogic`.
+  addOperation(
+    '$state',
+    function (initialValue: any, name?: string) {
+      const id = name ?? here()
+      const [get, set] = Solid.State(initialValue, { id })
+      return traced(useInspector(), id === undefined ? 'state' : `state:${id}`, get, set)
+    },
+    { arity: [0, 2], keys: [1] }
+  )
+
+  // $global: Wraps Global
+  addOperation(
+    '$global',
+    function (key: string, initial: any) {
+      const [get, set] = Solid.Global(key, initial)
+      return traced(useInspector(), `global:${key}`, get, set)
+    },
+    { arity: [1, 2], keys: [0] }
+  )
+
+  // $store: Returns a getter for the store. Attach setStore (path updates) and set (replace) to it.
+  // Each store starts from its own copy of the initial value: stores wrap (and write to) the object
+  // they are given, and share one proxy per object.
+  addOperation(
+    '$store',
+    function (initialValue: any) {
+      const [store, setStore] = Solid.Store(copyPlain(initialValue ?? {}))
+      const getter = (() => store) as any
+      getter.setStore = setStore
+      getter.set = (value: any) => Solid.setIn(setStore, '', value)
+      return getter
+    },
+    { arity: [0, 1] }
+  )
+
+  // $get: getIn(ref(), path)
+  // usage: { "$get": [<store ref>, "user.profile.name"] }
+  addOperation(
+    '$get',
+    function (ref: any, path: any) {
+      if (typeof ref !== 'function') return undefined
+      const store = ref()
+      checkStorePath(store, path)
+      return Solid.getIn(store, path ?? '')
+    },
+    { arity: [1, 2] }
+  )
+
+  // $setIn / $mergeIn / $deleteIn: path updates on a $store ref
+  // usage: { "$setIn": [<store ref>, "user.profile.name", <value>] }
+  addOperation(
+    '$setIn',
+    function (ref: any, path: any, value: any) {
+      if (ref && typeof ref.setStore === 'function') {
+        checkStorePath(untrack(ref), path)
+        Solid.setIn(ref.setStore, path ?? '', value)
+      }
+      return undefined
+    },
+    { arity: [3, 3] }
+  )
+
+  addOperation(
+    '$mergeIn',
+    function (ref: any, path: any, value: any) {
+      if (ref && typeof ref.setStore === 'function') {
+        checkStorePath(untrack(ref), path)
+        Solid.mergeIn(ref.setStore, path ?? '', value)
+      }
+      return undefined
+    },
+    { arity: [3, 3] }
+  )
+
+  addOperation(
+    '$deleteIn',
+    function (ref: any, path: any) {
+      if (ref && typeof ref.setStore === 'function') {
+        checkStorePath(untrack(ref), path)
+        Solid.deleteIn(ref.setStore, path ?? '')
+      }
+      return undefined
+    },
+    { arity: [2, 2] }
+  )
+
+  // $set: ref.set(val)
+  addOperation(
+    '$set',
+    function (ref: any, value: any) {
+      if (ref && typeof ref.set === 'function') {
+        return ref.set(value)
+      }
+      return undefined
+    },
+    { arity: [2, 2] }
+  )
+
+  // $batch: Batch(rule), or Transaction(rule)
+  // usage: { "$batch": <LazyNode> } or { "$batch": [<LazyNode>, "transaction"] }
+  // Dependents of the signals written in the body re-run once it is done. In a transaction, a body
+  // that throws sets every $state and $global it wrote back to its previous value before rethrowing.
+  addOperation(
+    '$batch',
+    function (bodyLazy: any, mode?: string) {
+      const ctx = currentContext
+      const body = () => (isLazyNode(bodyLazy) ? exec(bodyLazy, ctx) : bodyLazy)
+      return mode === 'transaction' ? Solid.Transaction(body) : Solid.Batch(body)
+    },
+    { arity: [1, 2], lazy: [0], strings: [1], check: checkBatch }
+  )
+
+  // $untrack: Untrack(rule)
+  // usage: { "$untrack": <LazyNode> }
+  // Signals read in the body do not make the enclosing $effect or $memo re-run.
+  addOperation(
+    '$untrack',
+    function (bodyLazy: any) {
+      const ctx = currentContext
+      return Solid.Untrack(() => (isLazyNode(bodyLazy) ? exec(bodyLazy, ctx) : bodyLazy))
+    },
+    { arity: [1, 1], lazy: [0] }
+  )
+
+  // $peek: the current value of a getter, read untracked
+  // usage: { "$peek": { "var": "count" } }
+  addOperation(
+    '$peek',
+    function (ref: any) {
+      return typeof ref === 'function' ? Solid.Untrack(ref) : ref
+    },
+    { arity: [1, 1] }
+  )
+
+  // $effect: Effect(rule)
+  // usage: { "$effect": { "__lazy": true, "rule": ... } }
+  addOperation(
+    '$effect',
+    function (lazyOrValue: any) {
+      const ctx = currentContext
+      const inspector = useInspector()
+      const node = scope(inspector, '$effect', undefined, true)
+      const limit = sandboxOf()?.effect(here())
+      Solid.Effect((prev) =>
+        within(inspector, node, () => {
+          limit?.()
+          if (isLazyNode(lazyOrValue)) {
+            exec(lazyOrValue, ctx)
+          } else if (typeof lazyOrValue === 'function') {
+            // A lambda (or host function) acts as the effect body and receives the previous value.
+            return lazyOrValue(prev)
+          } else {
+            // If passed a non-lazy value, it does nothing reactivity-wise unless the value itself is reactive?
+            // But jsonLogic evaluates args before passing.
+            // So we really expect a LazyNode block for effects.
+          }
+        })
+      )
+    },
+    { arity: [1, 1], callable: [0] }
+  )
+
+  // $memo: Memo(rule, equals)
+  // usage: { "$memo": { "__lazy": true, "rule": ... } } or { "$memo": [<LazyNode>, <equals fn | false>] }
+  // Returns a getter, read it with `call` like a $state getter.
+  addOperation(
+    '$memo',
+    function (lazyNode: any, equals?: any) {
+      const ctx = currentContext
+      const inspector = useInspector()
+      const node = scope(inspector, '$memo', undefined, true)
+      const memo = Solid.Memo(
+        () => within(inspector, node, () => (isLazyNode(lazyNode) ? exec(lazyNode, ctx) : lazyNode)),
+        undefined,
+        typeof equals === 'function' || equals === false ? { equals } : undefined
+      )
+      return traced(inspector, `memo:${node?.path}`, memo)
+    },
+    { arity: [1, 2], lazy: [0] }
+  )
+
+  // $resource: Resource(source, fetcher)
+  // usage: { "$resource": [<source | LazyNode>, <fetcher fn>] }
+  // Returns the value getter with `loading`, `error` getters and `refetch` attached.
+  addOperation(
+    '$resource',
+    function (source: any, fetcher: any) {
+      const ctx = currentContext
+      const resource = Solid.Resource(isLazyNode(source) ? () => exec(source, ctx) : source, (s, info) =>
+        typeof fetcher === 'function' ? fetcher(s, info) : fetcher
+      )
+      const getter = resource.value as any
+      getter.loading = resource.loading
+      getter.error = resource.error
+      getter.refetch = resource.refetch
+      return getter
+    },
+    { arity: [2, 2] }
+  )
+
+  // $interval: Interval(fn, ms)
+  // usage: { "$interval": [<ms>, <LazyNode>] }
+  // The body sees the tick count (from 1) as `tick`. Returns a function that stops the interval.
+  addOperation(
+    '$interval',
+    function (ms: any, bodyLazy: any) {
+      const ctx = currentContext
+      return Solid.Interval((tick) => {
+        if (isLazyNode(bodyLazy)) exec(bodyLazy, { ...ctx, tick })
+        else if (typeof bodyLazy === 'function') bodyLazy(tick)
+      }, ms)
+    },
+    { arity: [2, 2], callable: [1] }
   )
-})
 
-// $for: For(each, children)
-jsonLogic.add_operation('$for', function (list: any, childLazy: any) {
-  const ctx = currentContext
-  return Solid.For(list, (item, index) => {
-    // Inject item into context.
-    const childCtx = { ...ctx, item: item, index: index }
-    if (isLazyNode(childLazy)) {
-      exec(childLazy.rule, childCtx)
+  // $timeout: Timeout(fn, ms)
+  // usage: { "$timeout": [<ms>, <LazyNode>] }
+  // Returns a function that cancels the timeout.
+  addOperation(
+    '$timeout',
+    function (ms: any, bodyLazy: any) {
+      const ctx = currentContext
+      return Solid.Timeout(() => {
+        if (isLazyNode(bodyLazy)) exec(bodyLazy, ctx)
+        else if (typeof bodyLazy === 'function') bodyLazy()
+      }, ms)
+    },
+    { arity: [2, 2], callable: [1] }
+  )
+
+  // $cleanup: Cleanup(rule)
+  addOperation(
+    '$cleanup',
+    function (lazyNode: any) {
+      const ctx = currentContext
+      Solid.Cleanup(() => {
+        if (isLazyNode(lazyNode)) {
+          exec(lazyNode, ctx)
+        }
+      })
+    },
+    { arity: [1, 1], lazy: [0] }
+  )
+
+  // $show: Show(when, children, fallback)
+  addOperation(
+    '$show',
+    function (when: any, childrenLazy: any, fallbackLazy: any) {
+      const ctx = currentContext
+      const inspector = useInspector()
+      const node = scope(inspector, '$show')
+      return Solid.Show(
+        () => (isLazyNode(when) ? exec(when, ctx) : when),
+        () =>
+          mounted(inspector, node, 'branch', 'children', () => {
+            if (isLazyNode(childrenLazy)) return exec(childrenLazy, ctx)
+            return childrenLazy
+          }),
+        () =>
+          mounted(inspector, node, 'branch', 'fallback', () => {
+            if (isLazyNode(fallbackLazy)) return exec(fallbackLazy, ctx)
+            return fallbackLazy
+          })
+      )
+    },
+    { arity: [2, 3], lazy: [1, 2] }
+  )
+
+  // $switch: Switch(cases, fallback)
+  // usage: { "$switch": [[[<when>, <LazyNode>], ...], <LazyNode>] }
+  addOperation(
+    '$switch',
+    function (cases: any, fallbackLazy: any) {
+      const ctx = currentContext
+      const inspector = useInspector()
+      const node = scope(inspector, '$switch')
+      const matches = (Array.isArray(cases) ? cases : []).map(([when, childLazy]: any[], i: number) =>
+        Solid.Match(
+          () => (isLazyNode(when) ? exec(when, ctx) : when),
+          () =>
+            mounted(inspector, node, 'branch', `case ${i}`, () => {
+              if (isLazyNode(childLazy)) return exec(childLazy, ctx)
+              return childLazy
+            })
+        )
+      )
+      return Solid.Switch(matches, () =>
+        mounted(inspector, node, 'branch', 'fallback', () => {
+          if (isLazyNode(fallbackLazy)) return exec(fallbackLazy, ctx)
+          return fallbackLazy
+        })
+      )
+    },
+    { arity: [1, 2], lazy: [1], check: checkSwitchCases }
+  )
+
+  // $for: For(each, children)
+  addOperation(
+    '$for',
+    function (list: any, childLazy: any) {
+      const ctx = currentContext
+      const inspector = useInspector()
+      const node = scope(inspector, '$for')
+      return Solid.For(list, (item, index) =>
+        mounted(inspector, node, 'item', String(index()), () => {
+          // Inject item into context.
+          const childCtx = { ...ctx, item: item, index: index }
+          if (isLazyNode(childLazy)) {
+            exec(childLazy, childCtx)
+          } else if (typeof childLazy === 'function') {
+            // A lambda child receives the item and index as arguments, e.g. with ["item", "index"] params.
+            childLazy(item, index)
+          }
+        })
+      )
+    },
+    { arity: [2, 2], callable: [1] }
+  )
+
+  // $index: Index(each, children)
+  // Like $for, but keyed by position: `item` is a getter (use with `call`) that updates in place.
+  addOperation(
+    '$index',
+    function (list: any, childLazy: any) {
+      const ctx = currentContext
+      const inspector = useInspector()
+      const node = scope(inspector, '$index')
+      return Solid.Index(list, (item, index) =>
+        mounted(inspector, node, 'item', String(index), () => {
+          const childCtx = { ...ctx, item: item, index: index }
+          if (isLazyNode(childLazy)) {
+            exec(childLazy, childCtx)
+          } else if (typeof childLazy === 'function') {
+            childLazy(item, index)
+          }
+        })
+      )
+    },
+    { arity: [2, 2], callable: [1] }
+  )
+
+  // $catch: ErrorBoundary(children, fallback)
+  // usage: { "$catch": [<LazyNode>, <LazyNode>] }
+  // The fallback sees `error` (with `error.message`) and `reset`, a function remounting the children.
+  // Sandbox errors are not caught.
+  addOperation(
+    '$catch',
+    function (childLazy: any, fallbackLazy: any) {
+      const ctx = currentContext
+      const inspector = useInspector()
+      const node = scope(inspector, '$catch')
+      return Solid.ErrorBoundary(
+        () =>
+          mounted(inspector, node, 'branch', 'children', () => {
+            if (isLazyNode(childLazy)) exec(childLazy, ctx)
+          }),
+        (error, reset) =>
+          mounted(inspector, node, 'branch', 'fallback', () => {
+            // A tree may not recover from breaking its sandbox.
+            if (error instanceof SandboxError) throw error
+            if (isLazyNode(fallbackLazy)) exec(fallbackLazy, { ...ctx, error, reset })
+          })
+      )
+    },
+    { arity: [1, 2], lazy: [0, 1] }
+  )
+
+  // $machine: Machine(config)
+  // usage: { "$machine": { "initial": "idle", "states": { "idle": { "on": { "START": "running" } }, ... } } }
+  // A state's `entry` LazyNode is mounted while it is active; transitions may be { "target", "guard" }.
+  // Entry and guard rules see the value sent with the event as `payload`.
+  // Returns the current state getter with `.send(event, payload)` and `.can(event)` attached.
+  addOperation(
+    '$machine',
+    function (config: any) {
+      const ctx = currentContext
+      const inspector = useInspector()
+      const node = scope(inspector, '$machine')
+      const run = (rule: any, payload: any) =>
+        isLazyNode(rule) ? exec(rule, { ...ctx, payload }) : typeof rule === 'function' ? rule(payload) : rule
+      const states: Record<string, Solid.MachineState> = {}
+      for (const [name, state] of Object.entries<any>(config.states)) {
+        const on: Record<string, Solid.MachineTransition> = {}
+        for (const [event, transition] of Object.entries<any>(state.on ?? {})) {
+          const target = typeof transition === 'string' ? transition : transition.target
+          on[event] =
+            transition.guard === undefined
+              ? target
+              : { target, guard: (payload) => truthy(run(transition.guard, payload)) }
+        }
+        const entry = (payload: any) => mounted(inspector, node, 'state', name, () => run(state.entry, payload))
+        states[name] = { on, entry: state.entry === undefined ? undefined : entry }
+      }
+      const machine = Solid.Machine({ initial: config.initial, states })
+      const getter = machine.state as any
+      getter.send = machine.send
+      getter.can = machine.can
+      return getter
+    },
+    { arity: [1, 1], check: checkMachine }
+  )
+
+  // $send: machine.send(event, payload)
+  // usage: { "$send": [<machineRef>, "EVENT", <payload>] }
+  addOperation(
+    '$send',
+    function (machine: any, event: string, payload: any) {
+      return machine.send(event, payload)
+    },
+    { arity: [2, 3], keys: [1] }
+  )
+
+  // $emit: Emit(topic, payload)
+  // usage: { "$emit": ["topic", <payload>] }
+  addOperation(
+    '$emit',
+    function (topic: string, payload: any) {
+      Solid.Emit(topic, payload)
+    },
+    { arity: [1, 2], keys: [0] }
+  )
+
+  // $on: On(topic, handler)
+  // usage: { "$on": ["topic", <LazyNode>] }
+  // The handler sees the payload as `event`. It is removed when the owning scope is disposed.
+  // Returns a function that unsubscribes early.
+  addOperation(
+    '$on',
+    function (topic: string, handlerLazy: any) {
+      const ctx = currentContext
+      return Solid.On(topic, (event) => {
+        if (isLazyNode(handlerLazy)) exec(handlerLazy, { ...ctx, event })
+        else if (typeof handlerLazy === 'function') handlerLazy(event)
+      })
+    },
+    { arity: [2, 2], keys: [0], callable: [1] }
+  )
+
+  // $provide: Provide(key, value, children)
+  // usage: { "$provide": ["key", <value>, <LazyNode>] }
+  addOperation(
+    '$provide',
+    function (key: string, value: any, childLazy: any) {
+      const ctx = currentContext
+      const inspector = useInspector()
+      const node = scope(inspector, '$provide', key)
+      return Solid.Provide(key, value, () =>
+        within(inspector, node, () => {
+          if (isLazyNode(childLazy)) return exec(childLazy, ctx)
+          return childLazy
+        })
+      )
+    },
+    { arity: [3, 3], keys: [0], lazy: [2] }
+  )
+
+  // $use: Use(key, default)
+  // usage: { "$use": "key" } or { "$use": ["key", <default>] }
+  addOperation(
+    '$use',
+    function (key: string, defaultValue: any) {
+      return Solid.Use(key, defaultValue)
+    },
+    { arity: [1, 2], keys: [0] }
+  )
+
+  // $component: defines a component for $mount, visible to the rest of the run
+  // usage: { "$component": ["Poller", ["url", "interval"], <LazyNode>] }
+  // The body runs with each param bound to an accessor, in the context the component was defined in.
+  addOperation(
+    '$component',
+    function (name: string, params: string[], bodyLazy: any) {
+      const ctx = currentContext
+      const definition: Solid.ComponentDefinition = {
+        params,
+        component: (props) => exec(bodyLazy, { ...ctx, ...props })
+      }
+      ;(Solid.useComponentRegistry() ?? components).define(name, definition)
+      return definition
+    },
+    { arity: [3, 3], keys: [0], lazy: [2], check: checkComponent }
+  )
+
+  // $mount: Mount(component, props)
+  // usage: { "$mount": ["Poller", [<url>, <interval>]] } or { "$mount": ["Poller", <LazyNode returning the props>] }
+  // Props are passed in param order. Functions (e.g. $state getters) are passed through as accessors,
+  // other values become constant accessors; props from a LazyNode follow the signals it reads.
+  addOperation(
+    '$mount',
+    function (nameOrDefinition: any, props: any) {
+      const ctx = currentContext
+      const definition: Solid.ComponentDefinition | undefined =
+        typeof nameOrDefinition === 'string'
+          ? (Solid.useComponentRegistry() ?? components).lookup(nameOrDefinition)
+          : nameOrDefinition
+      if (!definition) throw new Error(`Unknown component '${nameOrDefinition}'`)
+      const inspector = useInspector()
+      const node = scope(inspector, '$mount', typeof nameOrDefinition === 'string' ? nameOrDefinition : undefined)
+      const values = isLazyNode(props) ? Solid.Memo(() => exec(props, ctx)) : undefined
+      const accessors = Object.fromEntries(
+        definition.params.map((param, i) => {
+          if (values) return [param, () => values()?.[i]]
+          const value = Array.isArray(props) ? props[i] : undefined
+          return [param, typeof value === 'function' ? value : () => value]
+        })
+      )
+      return Solid.Mount((p) => within(inspector, node, () => definition.component(p)), accessors)
+    },
+    { arity: [1, 2] }
+  )
+
+  // $import: an export of another logic module, or all of them
+  // usage: { "$import": ["./poller.json", "Poller"] } or { "$import": "./helpers.json" }
+  // Specifiers resolve against the importing module. Exports are evaluated once per run, when first imported.
+  addOperation(
+    '$import',
+    function (specifier: string, name?: string) {
+      const modules = useModuleScope()
+      if (!modules) throw new Error("'$import' is only available in runs started with runLogic")
+      const from = (currentNode && modules.graph.moduleOf(currentNode)) ?? modules.module
+      const module = modules.graph.load(specifier, from)
+      if (name === undefined) {
+        return Object.fromEntries(Object.keys(module.exports).map((key) => [key, modules.evaluate(module, key)]))
+      }
+      if (!(name in module.exports)) throw new Error(`Module '${module.id}' has no export '${name}'`)
+      return modules.evaluate(module, name)
+    },
+    { arity: [1, 2], strings: [0, 1] }
+  )
+
+  // $await: the value a promise settles to
+  // usage: { "seq": [{ "$set": [{ "var": "user" }, { "$await": { "call": [{ "var": "fetchUser" }, 1] } }] }, ...] }
+  // The operators around it (control operators too), and the rest of the enclosing seq, run once the
+  // promise settles, in the same scope. They never run if that scope is disposed first. Other values pass through.
+  addOperation(
+    '$await',
+    function (value: any) {
+      return value && typeof value.then === 'function' ? awaited(Promise.resolve(value)) : value
+    },
+    { arity: [1, 1] }
+  )
+
+  // Helper: Call a function (useful to invoke signal getters or other functions)
+  // Usage: { "call": [ fn, arg1, arg2 ] }
+  addOperation(
+    'call',
+    function (fnOrName: any, ...args: any[]) {
+      if (typeof fnOrName === 'function') {
+        return fnOrName(...args)
+      }
+      return undefined
+    },
+    { arity: [1] }
+  )
+
+  // Helper: Log to console
+  addOperation(
+    'log',
+    function (msg: any) {
+      console.log(msg)
+      return msg
+    },
+    { arity: [1, 1] }
+  )
+
+  // Helper: Sequence (run multiple rules, return last result)
+  // Usage: { "seq": [ rule1, rule2, ... ] }
+  // A control operator: a rule waiting on `$await` suspends the rules after it until it settles.
+  // The seq then returns a promise of the last result.
+  controls.set('seq', (evaluate, rules, data) => {
+    const from = (start: number, last: any): any => {
+      for (let i = start; i < rules.length; i++) {
+        last = evaluate(rules[i], data)
+        if (isAwaited(last)) return resume(last, data, (value) => from(i + 1, value))
+      }
+      return last
     }
+    return from(0, undefined)
   })
-})
-
-// Helper: Call a function (useful to invoke signal getters or other functions)
-// Usage: { "call": [ fn, arg1, arg2 ] }
-jsonLogic.add_operation('call', function (fnOrName: any, ...args: any[]) {
-  if (typeof fnOrName === 'function') {
-    return fnOrName(...args)
-  }
-  return undefined
-})
-
-// Helper: Log to console
-jsonLogic.add_operation('log', function (msg: any) {
-  console.log(msg)
-  return msg
-})
-
-// Helper: Sequence (run multiple rules, return last result)
-// Usage: { "seq": [ rule1, rule2, ... ] }
-jsonLogic.add_operation('seq', function (...rules: any[]) {
-  return rules[rules.length - 1]
-})
-
-// Helper: Define a local variable in context and run a rule
-// Usage: { "def": ["varName", value, ruleToRun] }
-jsonLogic.add_operation('def', function (name: string, value: any, rule: any) {
-  const ctx = { ...currentContext, [name]: value }
-  return exec(rule, ctx)
-})
-
-// Helper: Create a function from a rule (lambda)
-// Usage: { "lambda": { "__lazy": true, "rule": ... } }
-jsonLogic.add_operation('lambda', function (rule: any) {
-  const ctx = currentContext
-  return (..._args: any[]) => {
-    // We could capture args here if we wanted to inject them into a new context
-    // For now, assuming context is captured from definition + args not exposed unless logic
-    // But lambda args are useful. Let's expose them as "args" array or named?
-    // User didn't ask for generic lambda args, but `setInterval` callback might need none.
-    // If args are needed, we can add { ...ctx, args: args }
-    return exec(isLazyNode(rule) ? rule.rule : rule, ctx)
-  }
-})
-
-// --- Main Runner ---
 
-/**
- * Main entry point for the interpreter.
- * Wraps the execution in a SolidJS reactive root to support signals and effects.
- *
- * @param json - The JSON Logic tree to execute.
- * @param initialData - Initial data context.
- * @returns The result of the execution.
- */
-export function runLogic(json: LogicRule, initialData: DataContext = {}) {
-  // Requirement: "wraps the entire execution in createRoot"
-  return createRoot((dispose) => {
-    const result = exec(json, initialData)
-
-    // "Mount" the result: if it's a function (signal/memo/component),
-    // we must observe it to trigger lazy evaluations (like Show/For).
-    // In headless, if result is just settings up effects, it works.
-    // If result return a JSX Element (undefined in our Solid.ts), it's fine.
-
-    // We export dispose for manual cleanup if needed
-    return { result, dispose }
-  })
+  // Helper: Define a local variable in context and run a rule
+  // Usage: { "def": ["varName", value, ruleToRun] }
+  addOperation(
+    'def',
+    function (name: string, value: any, rule: any) {
+      const ctx = { ...currentContext, [name]: value }
+      return exec(rule, ctx)
+    },
+    { arity: [3, 3], strings: [0], lazy: [2] }
+  )
+
+  // Helper: Create a function from a rule (lambda)
+  // Usage: { "lambda": { "__lazy": true, "rule": ... } }
+  //    or: { "lambda": [["msg", "id"], { "__lazy": true, "rule": ... }] }
+  // Call arguments are bound to the named params in the captured context, and always to `args`.
+  addOperation(
+    'lambda',
+    function (paramsOrRule: any, maybeRule?: any) {
+      const ctx = currentContext
+      const params: string[] = Array.isArray(paramsOrRule) && maybeRule !== undefined ? paramsOrRule : []
+      const rule = maybeRule !== undefined ? maybeRule : paramsOrRule
+      const owner = getOwner()
+      return (...args: any[]) => {
+        const run = () => {
+          const callCtx: DataContext = { ...ctx, args }
+          params.forEach((name, i) => (callCtx[name] = args[i]))
+          const result = exec(rule, callCtx)
+          // A body waiting on `$await` makes an async lambda: callers get a plain promise of its result.
+          return isAwaited(result) ? result.then((value) => value) : result
+        }
+        // Called from a scope ($for item, $effect), the body belongs to that scope.
+        // Host callbacks (timers, events) run without an owner; restore the defining scope
+        // so scope-bound lookups such as `$global` resolve against the right run.
+        return getOwner() ? run() : runWithOwner(owner, run)
+      }
+    },
+    { arity: [1, 2], check: checkLambda }
+  )
+
+  // --- Main Runner ---
+
+  /**
+   * Main entry point for the interpreter.
+   * Wraps the execution in a SolidJS reactive root to support signals and effects.
+   *
+   * @param json - The JSON Logic tree to execute, or a tree compiled with `compileLogic`.
+   * @param initialData - Initial data context.
+   * @param runOptions - Per-run options, e.g. a shared parent registry for globals.
+   * @returns The result of the execution, its dispose function and its globals registry.
+   */
+  function runLogic(
+    json: LogicRule | CompiledLogic,
+    initialData: DataContext = {},
+    runOptions: RunOptions = {}
+  ): LogicHandle {
+    const compiled = typeof json === 'function' ? (json as CompiledLogic) : undefined
+    if (runOptions.validate) {
+      const errors = validateLogic(compiled ? compiled.rule : json).filter((d) => d.severity === 'error')
+      if (errors.length) throw new LogicValidationError(errors)
+    }
+    // Imported modules are loaded and checked before anything mounts. Sandboxed trees only import
+    // through the loader of their policy.
+    const graph = moduleGraph(runOptions.sandbox ? (runOptions.sandbox.loader ?? deniedLoader) : runOptions.loader)
+    graph.preload(compiled ? compiled.rule : json, runOptions.module)
+
+    // Requirement: "wraps the entire execution in createRoot"
+    return createRoot((dispose) => {
+      // Each run owns its globals; they are dropped when the root is disposed.
+      const globals = Solid.createGlobalRegistry(runOptions.sharedGlobals, runOptions.hydrate?.globals)
+      Solid.provideGlobalRegistry(globals)
+      Solid.Cleanup(globals.clear)
+      const events = runOptions.events ?? Solid.createEventBus()
+      Solid.provideEventBus(events)
+      if (!runOptions.events) Solid.Cleanup(events.clear)
+      if (runOptions.scheduler) Solid.provideScheduler(runOptions.scheduler)
+      // A sandboxed run sees the host functions it may not call as functions that throw.
+      let runData = initialData
+      if (runOptions.sandbox) {
+        const sandbox = createSandbox(runOptions.sandbox, here)
+        provideSandbox(sandbox)
+        Solid.provideScheduler(sandbox.schedule(Solid.useScheduler()))
+        sandboxed++
+        Solid.Cleanup(() => sandboxed--)
+        runData = sandbox.expose(initialData)
+      }
+      const states = Solid.createStateRegistry(runOptions.hydrate?.states)
+      Solid.provideStateRegistry(states)
+      Solid.provideComponentRegistry(Solid.createComponentRegistry(components))
+      // Exports belong to the run's root, not to the scope that happens to import them first.
+      const owner = getOwner()
+      const exported = new Map<string, any>()
+      provideModuleScope({
+        graph,
+        module: runOptions.module,
+        evaluate: (module, name) => {
+          const key = pointer([module.id, 'exports', name])
+          if (!exported.has(key)) {
+            indexPaths(module.exports[name], [module.id, 'exports', name])
+            exported.set(
+              key,
+              runWithOwner(owner, () => exec(module.exports[name], runData))
+            )
+          }
+          return exported.get(key)
+        }
+      })
+      const inspector = runOptions.inspect || runOptions.trace ? createInspector(runOptions.trace) : undefined
+      if (inspector) provideInspector(inspector)
+      let rule = compiled ? compiled.rule : json
+      const interpret = (rule: LogicRule) => (data: DataContext) => exec(rule, data)
+      let body = compiled && !runOptions.sandbox ? compiled : interpret(rule)
+      // LazyNodes run compiled only in runs of their compiled tree, or of a compiled tree `update` swapped in.
+      let trees: CompiledBodies[] = []
+      const runCompiled = (tree: CompiledLogic | undefined) => {
+        const bodies = tree && !runOptions.sandbox ? compiledBodies.get(tree) : undefined
+        if (bodies) trees = [bodies, ...trees]
+      }
+      runCompiled(compiled)
+      provideCompiledBodies((node) => {
+        for (const bodies of trees) {
+          const body = bodies(node)
+          if (body) return body
+        }
+      })
+      const table = createSwapTable(rule)
+      provideSwapTable(table)
+      indexPaths(rule, [])
+
+      // The tree itself is remounted when `update` changes it outside every remountable node.
+      const root = table.mount('', rule as object, () => untrack(() => body(runData)))
+      let result: any
+      try {
+        result = untrack(root)
+      } catch (error) {
+        // Nobody can dispose a run that failed to mount: stop what it started before failing.
+        dispose()
+        throw error
+      }
+
+      // "Mount" the result: if it's a function (signal/memo/component),
+      // we must observe it to trigger lazy evaluations (like Show/For).
+      // In headless, if result is just settings up effects, it works.
+      // If result return a JSX Element (undefined in our Solid.ts), it's fine.
+
+      // We export dispose for manual cleanup if needed
+      const snapshot = () => ({ states: states.snapshot(), globals: globals.snapshot() })
+      const inspect = () => {
+        if (!inspector) throw new Error('inspect() needs a run started with { inspect: true } or a trace callback')
+        return inspector.tree()
+      }
+      const update = (next: LogicRule | CompiledLogic): LogicUpdate => {
+        const nextCompiled = typeof next === 'function' ? (next as CompiledLogic) : compiled && compileLogic(next)
+        const nextRule = nextCompiled ? nextCompiled.rule : next
+        if (runOptions.validate) {
+          const errors = validateLogic(nextRule).filter((d) => d.severity === 'error')
+          if (errors.length) throw new LogicValidationError(errors)
+        }
+        graph.preload(nextRule, runOptions.module)
+        const changed = diffRules(rule, nextRule, (op) => REMOUNTABLE.has(op))
+        indexPaths(nextRule, [], true)
+        rule = nextRule
+        body = nextCompiled && !runOptions.sandbox ? nextCompiled : interpret(nextRule)
+        runCompiled(nextCompiled)
+        const remounted = table.swap(nextRule, changed)
+        handle.result = untrack(root)
+        return { remounted }
+      }
+      const evaluate = (rule: LogicRule) => {
+        if (runOptions.validate) {
+          const errors = validateLogic(rule).filter((d) => d.severity === 'error')
+          if (errors.length) throw new LogicValidationError(errors)
+        }
+        graph.preload(rule, runOptions.module)
+        return runWithOwner(owner, () => exec(rule, runData))
+      }
+      const handle: LogicHandle = { result, dispose, globals, events, snapshot, inspect, update, evaluate }
+      return handle
+    })
+  }
+
+  for (const name of options.exclude ?? []) removeOperation(name)
+  for (const [name, fn] of Object.entries(options.operations ?? {})) addOperation(name, fn, options.specs?.[name])
+
+  return {
+    exec,
+    runLogic,
+    addOperation,
+    removeOperation,
+    hasOperation,
+    registerComponent,
+    validateLogic,
+    compileLogic
+  }
 }
+
+// --- Default Instance ---
+
+// Like `jsonLogic.apply` before it, the default instance also runs operators added to json-logic-js.
+const defaultInterpreter = createInterpreter({ fallback: jsonLogicOperation })
+
+/** Executes logic on the default interpreter instance. See `Interpreter.exec`. */
+export const exec = defaultInterpreter.exec
+
+/** Runs logic on the default interpreter instance. See `Interpreter.runLogic`. */
+export const runLogic = defaultInterpreter.runLogic
+
+/** Validates logic against the default interpreter's operators. See `Interpreter.validateLogic`. */
+export const validateLogic = defaultInterpreter.validateLogic
+
+/** Compiles logic against the default interpreter's operators. See `Interpreter.compileLogic`. */
+export const compileLogic = defaultInterpreter.compileLogic
+
+/** Registers a component on the default interpreter instance. See `Interpreter.registerComponent`. */
+export const registerComponent = defaultInterpreter.registerComponent
@@ -0,0 +1,118 @@
+import fs from 'node:fs'
+import { describe, it, expect } from 'vitest'
+import { L } from './builder'
+import { compileLogic, exec, runLogic, validateLogic } from './Interpreter'
+import { createVirtualClock } from './solid'
+
+const lazy = (rule: any) => ({ __lazy: true, rule })
+
+describe('builder', () => {
+  it('should build demo.json', () => {
+    const status = L.global<string>('app_status')
+    const demo = L.def('timer', L.state(0), (timer) => [
+      L.global('app_status', 'initializing'),
+      L.effect(L.log(L.cat('App Status changed to: ', L.read(status)))),
+      L.show(
+        L.eq(L.read(status), 'running'),
+        L.and(
+          L.log('--- Timer Logic Mounted ---'),
+          L.interval(200, () =>
+            L.and(L.log(L.cat('Timer Tick: ', L.add(L.read(timer), 1))), L.set(timer, L.add(L.read(timer), 1)))
+          ),
+          L.cleanup(L.log('--- Cleaning up Timer ---'))
+        ),
+        L.log('System Idle (Fallback)')
+      ),
+      L.effect(L.if(L.eq(L.read(timer), 5), L.set(status, 'finished'), null))
+    ])
+    expect(demo).toEqual(JSON.parse(fs.readFileSync('demo.json', 'utf-8')))
+    expect(validateLogic(demo)).toEqual([])
+  })
+
+  it('should wrap bodies and conditions in LazyNodes and bind names', () => {
+    const items = L.var<string[]>('items')
+    expect(L.for(items, (item, index) => L.cat(item, L.read(index)))).toEqual({
+      $for: [{ var: 'items' }, lazy({ cat: [{ var: 'item' }, { call: [{ var: 'index' }] }] })]
+    })
+    expect(
+      L.switch(
+        [
+          [L.var('a'), 'A'],
+          [true, 'B']
+        ],
+        'C'
+      )
+    ).toEqual({
+      $switch: [
+        [
+          [lazy({ var: 'a' }), lazy('A')],
+          [true, lazy('B')]
+        ],
+        lazy('C')
+      ]
+    })
+    expect(L.catch(L.var('risky'), (error, reset) => [error, reset])).toEqual({
+      $catch: [lazy({ var: 'risky' }), lazy([{ var: 'error' }, { var: 'reset' }])]
+    })
+    expect(L.transaction(L.lazy(L.var('body')))).toEqual({ $batch: [lazy({ var: 'body' }), 'transaction'] })
+    expect(L.state([1, 2], 'list')).toEqual({ $state: [[1, 2], 'list'] })
+    expect(L.state([1, 2])).toEqual({ $state: [[1, 2]] })
+  })
+
+  it('should run like the hand-written tree', () => {
+    const clock = createVirtualClock()
+    const built = L.def('count', L.state(0, 'count'), (count) => [
+      L.interval(100, (tick) => L.set(count, L.add(L.read(count), tick))),
+      L.memo(L.mul(L.read(count), 2))
+    ])
+    const written = {
+      def: [
+        'count',
+        { $state: [0, 'count'] },
+        lazy([
+          {
+            $interval: [
+              100,
+              lazy({ $set: [{ var: 'count' }, { '+': [{ call: [{ var: 'count' }] }, { var: 'tick' }] }] })
+            ]
+          },
+          { $memo: lazy({ '*': [{ call: [{ var: 'count' }] }, 2] }) }
+        ])
+      ]
+    }
+    expect(built).toEqual(written)
+
+    const a = runLogic(built, {}, { scheduler: clock })
+    const b = runLogic(compileLogic(built), {}, { scheduler: clock })
+    clock.advance(300)
+    expect(a.snapshot()).toEqual({ states: { count: 6 }, globals: {} })
+    expect(b.snapshot()).toEqual(a.snapshot())
+    expect(a.result[1]()).toBe(12)
+    a.dispose()
+    b.dispose()
+
+    const double = L.lambda<[number], number>(['n'], (n) => L.mul(n, 2))
+    expect(exec(L.def('double', double, (fn) => L.call(fn, 21)))).toBe(42)
+  })
+
+  it('should type-check values against signals and functions', () => {
+    const count = L.state(0)
+    const status = L.global<string>('status')
+    const double = L.lambda<[number], number>(['n'], (n) => L.mul(n, 2))
+
+    L.set(count, L.add(L.read(count), 1))
+    L.set(status, L.cat('step ', L.read(count)))
+    L.call(double, L.read(count))
+    // @ts-expect-error a number signal takes numbers
+    L.set(count, 'one')
+    // @ts-expect-error a string signal takes strings
+    L.set(status, L.read(count))
+    // @ts-expect-error only signals can be set
+    L.set(L.memo(1), 2)
+    // @ts-expect-error arithmetic takes numbers
+    L.add(L.read(status), 1)
+    // @ts-expect-error the lambda takes a number
+    L.call(double, 'two')
+    expect(L.raw<number>({ var: 'n' })).toEqual({ var: 'n' })
+  })
+})
@@ -0,0 +1,227 @@
+import { isLazyNode, type LazyNode, type LogicRule } from './Interpreter'
+
+// --- Types ---
+
+declare const valueType: unique symbol
+
+/**
+ * A rule built with `L` that evaluates to a `T`. At runtime it is the plain JSON rule;
+ * `T` only exists for the compiler.
+ */
+export type Rule<T = unknown> = { readonly [valueType]: T }
+
+/** A `T`, or a rule evaluating to one. */
+export type Arg<T> = T | Rule<T>
+
+/** A getter as rules see it, e.g. a `$memo` or a `$for` index: read it with `L.read`. */
+export type Accessor<T> = () => T
+
+/** A `$state` or `$global` signal: read it with `L.read`, write it with `L.set`. */
+export interface Ref<T> {
+  (): T
+  set: (value: T) => T
+}
+
+/** A `$store`: read it whole with `L.read`, or by path with `L.get`. */
+export interface StoreRef<T extends object> {
+  (): T
+  setStore: unknown
+}
+
+// --- Nodes ---
+
+const isRule = (value: unknown) => value !== null && typeof value === 'object'
+
+const node = <T>(op: string, args: unknown[]): Rule<T> => ({ [op]: args }) as any
+
+// One-argument operators are written without the argument array, as in `{ "$effect": <LazyNode> }`.
+const unary = <T>(op: string, arg: unknown): Rule<T> => (Array.isArray(arg) ? node(op, [arg]) : ({ [op]: arg } as any))
+
+const lazy = (rule: unknown): LazyNode => (isLazyNode(rule) ? rule : { __lazy: true, rule: rule as LogicRule })
+
+// Conditions are re-evaluated on every change of the signals they read, so rules go in a LazyNode.
+const condition = (when: unknown) => (isRule(when) ? lazy(when) : when)
+
+const ref = <T>(name: string): Rule<T> => unary('var', name)
+
+// --- Builder ---
+
+/**
+ * Builds `LogicRule` JSON with the LazyNode wrappers in place.
+ *
+ * Operators that bind names (`def`, `$for` items, `lambda` params, ...) take a function that
+ * receives `var` rules for them:
+ *
+ * ```typescript
+ * const counter = L.def('count', L.state(0), (count) =>
+ *   L.interval(1000, () => L.set(count, L.add(L.read(count), 1)))
+ * )
+ * runLogic(counter)
+ * ```
+ *
+ * The rules are plain JSON: `JSON.stringify` them, or pass them to `runLogic` and `compileLogic`
+ * like hand-written trees. Names are bound like in JSON, so a nested `$for` hides the `item` of the
+ * one around it.
+ */
+export const L = {
+  /** A hand-written rule, typed as evaluating to a `T`. */
+  raw: <T = unknown>(rule: LogicRule): Rule<T> => rule as any,
+  /** Wraps a rule in a LazyNode, for operators added with `addOperation`. */
+  lazy: (rule: unknown): Rule<LazyNode> => lazy(rule) as any,
+  /** Any operator: `{ "<name>": [...args] }`. */
+  op: <T = unknown>(name: string, ...args: unknown[]): Rule<T> => node(name, args),
+
+  // Data
+
+  /** `{ "var": path }`: a value of the data context, `fallback` if it is missing. */
+  var: <T = unknown>(path: string, fallback?: Arg<T>): Rule<T> =>
+    fallback === undefined ? ref(path) : node('var', [path, fallback]),
+  /** `def`: binds `value` to `name` for the rules `body` returns. */
+  def: <V, R>(name: string, value: Arg<V>, body: (value: Rule<V>) => Arg<R>): Rule<R> =>
+    node('def', [name, value, lazy(body(ref(name)))]),
+  /** `seq`: runs the rules in order and returns the last result. */
+  seq: <R>(...rules: [...unknown[], Arg<R>]): Rule<R> => node('seq', rules),
+  /**
+   * `lambda`: a function binding its arguments to `params`.
+   * Typed by its arguments, e.g. `L.lambda<[number]>(['n'], (n) => ...)`.
+   */
+  lambda: <A extends unknown[] = unknown[], R = unknown>(
+    params: { [K in keyof A]: string },
+    body: (...args: { [K in keyof A]: Rule<A[K]> }) => Arg<R>
+  ): Rule<(...args: A) => R> => node('lambda', [params, lazy(body(...(params.map(ref) as any)))]),
+  /** `call`: calls a function from the data context or built by a rule. */
+  call: <A extends unknown[], R>(fn: Arg<(...args: A) => R>, ...args: { [K in keyof A]: Arg<A[K]> }): Rule<R> =>
+    node('call', [fn, ...args]),
+  /** Reads a signal, memo or store: `{ "call": [ref] }`. */
+  read: <T>(getter: Arg<Accessor<T>>): Rule<T> => node('call', [getter]),
+
+  // State
+
+  /** `$state`: a signal starting at `initial`. `name` identifies it in snapshots. */
+  state: <T>(initial: Arg<T>, name?: string): Rule<Ref<T>> =>
+    name === undefined ? unary('$state', initial) : node('$state', [initial, name]),
+  /** `$global`: the run's global signal `key`, created with `initial` if it does not exist yet. */
+  global: <T>(key: string, initial?: Arg<T>): Rule<Ref<T>> =>
+    node('$global', initial === undefined ? [key] : [key, initial]),
+  /** `$set`: writes a signal. */
+  set: <T>(signal: Arg<Ref<T>>, value: Arg<NoInfer<T>>): Rule<T> => node('$set', [signal, value]),
+  /** `$store`: a store starting at `initial`. */
+  store: <T extends object>(initial: Arg<T>): Rule<StoreRef<T>> => unary('$store', initial),
+  /** `$get`: the value at `path` (dotted, or an array of keys) in a store. */
+  get: <T = unknown>(store: Arg<StoreRef<object>>, path: Arg<string | (string | number)[]>): Rule<T> =>
+    node('$get', [store, path]),
+  /** `$setIn`: writes the value at `path` in a store. */
+  setIn: (store: Arg<StoreRef<object>>, path: Arg<string | (string | number)[]>, value: unknown): Rule<void> =>
+    node('$setIn', [store, path, value]),
+  /** `$mergeIn`: merges an object into the one at `path` in a store. */
+  mergeIn: (store: Arg<StoreRef<object>>, path: Arg<string | (string | number)[]>, value: Arg<object>): Rule<void> =>
+    node('$mergeIn', [store, path, value]),
+  /** `$deleteIn`: removes the value at `path` from a store. */
+  deleteIn: (store: Arg<StoreRef<object>>, path: Arg<string | (string | number)[]>): Rule<void> =>
+    node('$deleteIn', [store, path]),
+  /** `$batch`: runs `body` as one update. */
+  batch: <R>(body: Arg<R>): Rule<R> => unary('$batch', lazy(body)),
+  /** `$batch` in `transaction` mode: also sets every signal `body` wrote back if it throws. */
+  transaction: <R>(body: Arg<R>): Rule<R> => node('$batch', [lazy(body), 'transaction']),
+  /** `$untrack`: runs `body` without tracking the signals it reads. */
+  untrack: <R>(body: Arg<R>): Rule<R> => unary('$untrack', lazy(body)),
+  /** `$peek`: reads a getter without tracking it. */
+  peek: <T>(getter: Arg<Accessor<T>>): Rule<T> => unary('$peek', getter),
+
+  // Effects
+
+  /** `$effect`: runs `body` again whenever a signal it read changes. */
+  effect: (body: unknown): Rule<void> => unary('$effect', lazy(body)),
+  /** `$memo`: a getter for the value of `body`, recomputed when a signal it read changes. */
+  memo: <T>(body: Arg<T>): Rule<Accessor<T>> => unary('$memo', lazy(body)),
+  /** `$interval`: runs `body` every `ms` with the tick count (from 1). Returns a function that stops it. */
+  interval: (ms: Arg<number>, body: (tick: Rule<number>) => unknown): Rule<() => void> =>
+    node('$interval', [ms, lazy(body(ref('tick')))]),
+  /** `$timeout`: runs `body` once after `ms`. Returns a function that cancels it. */
+  timeout: (ms: Arg<number>, body: unknown): Rule<() => void> => node('$timeout', [ms, lazy(body)]),
+  /** `$cleanup`: runs `body` when the enclosing scope is disposed. */
+  cleanup: (body: unknown): Rule<void> => unary('$cleanup', lazy(body)),
+  /** `$await`: the value a promise settles to. The rules after it wait for it. */
+  await: <T>(value: Arg<T | PromiseLike<T>>): Rule<T> => unary('$await', value),
+
+  // Control Flow
+
+  /** `$show`: mounts `children` while `when` is truthy, `fallback` otherwise. */
+  show: (when: unknown, children: unknown, fallback?: unknown): Rule<unknown> =>
+    node(
+      '$show',
+      fallback === undefined ? [condition(when), lazy(children)] : [condition(when), lazy(children), lazy(fallback)]
+    ),
+  /** `$switch`: mounts the body of the first case whose condition is truthy, `fallback` if none is. */
+  switch: (cases: [when: unknown, body: unknown][], fallback?: unknown): Rule<unknown> => {
+    const branches = cases.map(([when, body]) => [condition(when), lazy(body)])
+    return node('$switch', fallback === undefined ? [branches] : [branches, lazy(fallback)])
+  },
+  /** `$for`: mounts `body` for each item of a list, keyed by item. The index is a getter. */
+  for: <T>(
+    list: Arg<readonly T[] | Accessor<readonly T[]>>,
+    body: (item: Rule<T>, index: Rule<Accessor<number>>) => unknown
+  ): Rule<unknown> => node('$for', [list, lazy(body(ref('item'), ref('index')))]),
+  /** `$index`: mounts `body` for each position of a list. The item is a getter. */
+  index: <T>(
+    list: Arg<readonly T[] | Accessor<readonly T[]>>,
+    body: (item: Rule<Accessor<T>>, index: Rule<number>) => unknown
+  ): Rule<unknown> => node('$index', [list, lazy(body(ref('item'), ref('index')))]),
+  /** `$catch`: mounts `body`, and `fallback` with the error and a `reset` function if it throws. */
+  catch: (body: unknown, fallback?: (error: Rule<Error>, reset: Rule<() => void>) => unknown): Rule<unknown> =>
+    node('$catch', fallback === undefined ? [lazy(body)] : [lazy(body), lazy(fallback(ref('error'), ref('reset')))]),
+
+  // Events & Context
+
+  /** `$emit`: sends `payload` on the run's event bus. */
+  emit: (topic: string, payload?: unknown): Rule<void> =>
+    node('$emit', payload === undefined ? [topic] : [topic, payload]),
+  /** `$on`: runs `handler` with the payload of each event on `topic`. Returns a function that unsubscribes. */
+  on: <E = unknown>(topic: string, handler: (event: Rule<E>) => unknown): Rule<() => void> =>
+    node('$on', [topic, lazy(handler(ref('event')))]),
+  /** `$provide`: makes `value` available to `$use` in `children`. */
+  provide: (key: string, value: unknown, children: unknown): Rule<unknown> =>
+    node('$provide', [key, value, lazy(children)]),
+  /** `$use`: the value provided for `key` by an enclosing `$provide`. */
+  use: <T = unknown>(key: string, fallback?: Arg<T>): Rule<T> =>
+    fallback === undefined ? unary('$use', key) : node('$use', [key, fallback]),
+
+  // Components & Modules
+
+  /** `$component`: defines a component for `mount`. Its body receives its props as getters. */
+  component: <P extends string[]>(
+    name: string,
+    params: [...P],
+    body: (...props: { [K in keyof P]: Rule<Accessor<unknown>> }) => unknown
+  ): Rule<unknown> => node('$component', [name, params, lazy(body(...(params.map(ref) as any)))]),
+  /** `$mount`: mounts a component with props in param order. */
+  mount: (name: string, props: unknown[] = []): Rule<unknown> => node('$mount', [name, props]),
+  /** `$import`: export `name` of a module, or all of its exports. */
+  import: <T = unknown>(specifier: string, name?: string): Rule<T> =>
+    name === undefined ? unary('$import', specifier) : node('$import', [specifier, name]),
+
+  // Logic & Arithmetic
+
+  /** `if`: `then` when `condition` is truthy, `otherwise` when it is not. */
+  if: <T, F = T>(condition: unknown, then: Arg<T>, otherwise?: Arg<F>): Rule<T | F> =>
+    node('if', otherwise === undefined ? [condition, then] : [condition, then, otherwise]),
+  and: (...args: unknown[]): Rule<unknown> => node('and', args),
+  or: (...args: unknown[]): Rule<unknown> => node('or', args),
+  not: (value: unknown): Rule<boolean> => unary('!', value),
+  eq: (a: unknown, b: unknown): Rule<boolean> => node('==', [a, b]),
+  ne: (a: unknown, b: unknown): Rule<boolean> => node('!=', [a, b]),
+  is: (a: unknown, b: unknown): Rule<boolean> => node('===', [a, b]),
+  isNot: (a: unknown, b: unknown): Rule<boolean> => node('!==', [a, b]),
+  lt: (a: Arg<number>, b: Arg<number>): Rule<boolean> => node('<', [a, b]),
+  lte: (a: Arg<number>, b: Arg<number>): Rule<boolean> => node('<=', [a, b]),
+  gt: (a: Arg<number>, b: Arg<number>): Rule<boolean> => node('>', [a, b]),
+  gte: (a: Arg<number>, b: Arg<number>): Rule<boolean> => node('>=', [a, b]),
+  add: (...values: Arg<number>[]): Rule<number> => node('+', values),
+  sub: (a: Arg<number>, b: Arg<number>): Rule<number> => node('-', [a, b]),
+  mul: (...values: Arg<number>[]): Rule<number> => node('*', values),
+  div: (a: Arg<number>, b: Arg<number>): Rule<number> => node('/', [a, b]),
+  mod: (a: Arg<number>, b: Arg<number>): Rule<number> => node('%', [a, b]),
+  cat: (...values: unknown[]): Rule<string> => node('cat', values),
+  /** `log`: prints `value` to the console and returns it. */
+  log: <T>(value: Arg<T>): Rule<T> => unary('log', value)
+}
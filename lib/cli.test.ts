@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest'
+import { createSession, parseCommand, type CliIO } from './cli'
+
+const lazy = (rule: any) => ({ __lazy: true, rule })
+// Logs through the session, like `{"call": [{"var": "log"}, ...]}` in a document.
+const log = (...args: any[]) => ({ call: [{ var: 'log' }, ...args] })
+
+// A session over in-memory files that records what it prints.
+const memoryIO = (files: Record<string, any>) => {
+  const out: string[] = []
+  const io: CliIO = {
+    read: (file) => {
+      if (!(file in files)) throw new Error('No such file')
+      return typeof files[file] === 'string' ? files[file] : JSON.stringify(files[file])
+    },
+    print: (text) => out.push(text),
+    error: (text) => out.push(`! ${text}`)
+  }
+  return { io, out }
+}
+
+describe('cli', () => {
+  it('should parse run commands', () => {
+    expect(parseCommand(['run', 'app.json'])).toEqual({ command: 'run', file: 'app.json', watch: false })
+    expect(parseCommand(['run', 'app.json', '--data', 'ctx.json', '-w'])).toEqual({
+      command: 'run',
+      file: 'app.json',
+      data: 'ctx.json',
+      watch: true
+    })
+    expect(parseCommand([]).command).toBe('help')
+    expect(parseCommand(['run', 'app.json', '--help']).command).toBe('help')
+    expect(() => parseCommand(['start', 'app.json'])).toThrow("Unknown command 'start'")
+    expect(() => parseCommand(['run'])).toThrow('Missing the logic file')
+    expect(() => parseCommand(['run', 'a.json', 'b.json'])).toThrow("Unexpected argument 'b.json'")
+    expect(() => parseCommand(['run', 'a.json', '--fast'])).toThrow()
+  })
+
+  it('should list and set globals and evaluate rules against the running tree', () => {
+    const app = [
+      { $global: ['mode', 'idle'] },
+      { $effect: lazy(log({ cat: ['mode: ', { call: [{ $global: ['mode'] }] }] })) }
+    ]
+    const { io, out } = memoryIO({ 'app.json': app, 'ctx.json': { user: 'Ada' } })
+    const session = createSession({ command: 'run', file: 'app.json', data: 'ctx.json', watch: false }, io)
+    session.start()
+    expect(out).toEqual(['mode: idle'])
+
+    session.command('globals')
+    session.command('set mode "busy"')
+    session.command('{"cat": [{"var": "user"}, " is ", {"call": [{"$global": ["mode"]}]}]}')
+    session.command('eval {"+": [1, 2]}')
+    session.command('set missing 1')
+    session.command('hello')
+    expect(out.slice(1)).toEqual([
+      'mode = "idle"',
+      'mode: busy',
+      '"Ada is busy"',
+      '3',
+      "! Error: Global 'missing' not found",
+      "! Error: Unknown command 'hello'. Type 'help' for the commands, or enter a JSON rule"
+    ])
+    expect(session.command('exit')).toBe('exit')
+    expect(session.dispose()).toBe(0)
+  })
+
+  it('should swap in a changed document and restart on a changed data file', () => {
+    const files: Record<string, any> = {
+      'app.json': [{ def: ['count', { $state: [0, 'count'] }, lazy({ $show: [true, lazy(log('a'))] })] }],
+      'ctx.json': { step: 1 }
+    }
+    const { io, out } = memoryIO(files)
+    const session = createSession({ command: 'run', file: 'app.json', data: 'ctx.json', watch: true }, io)
+    expect(session.files).toEqual(['app.json', 'ctx.json'])
+    session.start()
+    session.command('$set is not a command')
+    session.reload()
+    expect(out).toEqual(['a', expect.stringContaining("Unknown command '$set'")])
+
+    files['app.json'] = [{ def: ['count', { $state: [0, 'count'] }, lazy({ $show: [true, lazy(log('b'))] })] }]
+    session.reload()
+    expect(out.slice(2)).toEqual(['b', 'Reloaded app.json: remounted /0/def/2/rule'])
+
+    files['ctx.json'] = '{ "step": '
+    session.reload()
+    expect(out[4]).toMatch(/^! Cannot read 'ctx.json'/)
+    files['ctx.json'] = { step: 2 }
+    session.reload()
+    expect(out.slice(5)).toEqual(['b', 'Restarted app.json'])
+    session.command('{"var": "step"}')
+    expect(out[7]).toBe('2')
+    expect(session.dispose()).toBe(0)
+  })
+
+  it('should read imported modules afresh and restart when one changed', () => {
+    const files: Record<string, any> = {
+      'app.json': { $effect: lazy({ $import: ['lib/greet.json', 'greet'] }) },
+      'lib/greet.json': { exports: { greet: log('hello') } }
+    }
+    const { io, out } = memoryIO(files)
+    const session = createSession({ command: 'run', file: 'app.json', watch: true }, io)
+    expect(session.files).toEqual(['app.json'])
+    session.start()
+    expect(session.files).toEqual(['app.json', 'lib/greet.json'])
+    session.reload()
+    expect(out).toEqual(['hello'])
+
+    files['lib/greet.json'] = { exports: { greet: log('hi') } }
+    session.reload()
+    expect(out.slice(1)).toEqual(['hi', 'Restarted app.json'])
+    expect(session.dispose()).toBe(0)
+  })
+
+  it('should exit with 1 once the tree threw', () => {
+    // Calling `log` is a sandbox violation here: the effect throws once `mode` is "boom".
+    const app = { $effect: lazy({ if: [{ '==': [{ call: [{ $global: ['mode', 'ok'] }] }, 'boom'] }, log('boom')] }) }
+    const { io, out } = memoryIO({ 'app.json': app })
+    const sandbox = { sandbox: {} }
+    const session = createSession({ command: 'run', file: 'app.json', watch: false }, io, sandbox)
+    session.start()
+    session.command('{"bogus": []}')
+    expect(out).toHaveLength(1)
+    // A rule typed at the prompt failing is not the tree's failure.
+    expect(session.dispose()).toBe(0)
+
+    const failing = createSession({ command: 'run', file: 'app.json', watch: false }, io, sandbox)
+    failing.start()
+    failing.command('set mode "boom"')
+    expect(out[1]).toBe("! Error: Host function 'log' is not allowed at /$effect/rule/if/1")
+    expect(failing.dispose()).toBe(1)
+
+    const missing = createSession({ command: 'run', file: 'missing.json', watch: false }, io)
+    missing.start()
+    expect(out[2]).toBe("! Cannot read 'missing.json': No such file")
+    expect(missing.dispose()).toBe(1)
+  })
+})
@@ -0,0 +1,297 @@
+import fs from 'node:fs'
+import path from 'node:path'
+import { parseArgs } from 'node:util'
+import { createFileLoader } from './fileLoader'
+import {
+  runLogic,
+  type DataContext,
+  type LogicHandle,
+  type LogicRule,
+  type ModuleLoader,
+  type RunOptions
+} from './Interpreter'
+
+// --- Arguments ---
+
+export const USAGE = `Usage: renderless run <file.json> [--data <ctx.json>] [--watch]
+
+  -d, --data <file>  JSON object merged into the data context of the run
+  -w, --watch        Reload when the logic document, a module it imports or the data file changes
+  -h, --help         Show this help`
+
+/** A parsed `renderless` command line. */
+export interface CliCommand {
+  command: 'run' | 'help'
+  /** The logic document to run. */
+  file?: string
+  /** JSON file with the run's data context. */
+  data?: string
+  watch: boolean
+}
+
+/**
+ * Parses the arguments of `renderless` (without the node and script paths).
+ * Throws with a message fit for the terminal when they are not a valid command.
+ */
+export function parseCommand(argv: string[]): CliCommand {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      data: { type: 'string', short: 'd' },
+      watch: { type: 'boolean', short: 'w' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  })
+  const watch = values.watch ?? false
+  if (values.help || positionals.length === 0) return { command: 'help', watch }
+  const [command, file, ...rest] = positionals
+  if (command !== 'run') throw new Error(`Unknown command '${command}'`)
+  if (!file) throw new Error('Missing the logic file to run')
+  if (rest.length) throw new Error(`Unexpected argument '${rest[0]}'`)
+  return { command, file, data: values.data, watch }
+}
+
+// --- Session ---
+
+/** Where a session reads its files and writes its output. Defaults to the file system and the console. */
+export interface CliIO {
+  read: (file: string) => string
+  print: (text: string) => void
+  error: (text: string) => void
+}
+
+const nodeIO: CliIO = {
+  read: (file) => fs.readFileSync(file, 'utf-8'),
+  print: (text) => console.log(text),
+  error: (text) => console.error(text)
+}
+
+export const COMMANDS = `Commands:
+  globals              List the run's globals and their values
+  set <key> <json>     Set global <key> to a JSON value
+  eval <json>          Evaluate a rule against the running tree (a bare JSON rule works too)
+  reload               Reload the logic document, its modules and the data file
+  help                 Show this help
+  exit                 Dispose the run and exit`
+
+/** A logic document running under the CLI, driven by REPL commands and file changes. */
+export interface CliSession {
+  /**
+   * Files whose changes should `reload` the session: the document, the data file and the modules
+   * the run imported so far. It grows as the run imports more.
+   */
+  readonly files: string[]
+  /** Starts the run. Errors are reported, not thrown. */
+  start: () => void
+  /**
+   * Picks up changed files. A changed document is swapped into the running tree with `update`;
+   * a changed data file or module (or a run that failed to start) restarts it from a snapshot of its signals.
+   */
+  reload: () => void
+  /** Runs one REPL command. Returns `'exit'` when the session should end. */
+  command: (line: string) => 'exit' | void
+  /** Records an error the tree threw outside any command, e.g. in a timer. */
+  fail: (error: unknown) => void
+  /** Disposes the run. Returns the exit code: 1 if the tree ever threw, 0 otherwise. */
+  dispose: () => number
+}
+
+const format = (value: any): string => {
+  if (typeof value === 'function') return '[Function]'
+  if (value === undefined) return 'undefined'
+  try {
+    return JSON.stringify(value) ?? String(value)
+  } catch {
+    return String(value)
+  }
+}
+
+const message = (error: unknown) => (error instanceof Error ? error.message : String(error))
+
+/**
+ * Creates the session of a `run` command.
+ *
+ * @param command - The parsed command line, with `file` set.
+ * @param io - Files and output, e.g. in-memory ones in tests.
+ * @param options - Extra options for every `runLogic` of the session.
+ */
+export function createSession(command: CliCommand, io: CliIO = nodeIO, options: RunOptions = {}): CliSession {
+  const file = command.file!
+  // Host functions the CLI offers every document. A data file may add (JSON) values next to them.
+  const host: DataContext = {
+    console,
+    log: (...values: any[]) => io.print(values.map((v) => (typeof v === 'string' ? v : format(v))).join(' '))
+  }
+
+  let handle: LogicHandle | undefined
+  let failed = false
+  let source: string | undefined
+  let dataSource: string | undefined
+  // The modules the run loaded, with the text they had then.
+  let modules = new Map<string, string>()
+
+  const fail = (error: unknown) => {
+    failed = true
+    io.error(`Error: ${message(error)}`)
+  }
+
+  // Reads and parses a JSON file, reporting (but not failing on) unreadable or malformed ones.
+  const readJSON = (name: string): { text: string; value: any } | undefined => {
+    try {
+      const text = io.read(name)
+      return { text, value: JSON.parse(text) }
+    } catch (error) {
+      io.error(`Cannot read '${name}': ${message(error)}`)
+    }
+  }
+
+  // The data context of a run, or undefined if the data file cannot be used.
+  const toData = (data: { text: string; value: any } | undefined): DataContext | undefined => {
+    if (!command.data) return { ...host }
+    if (!data) return
+    if (data.value === null || typeof data.value !== 'object' || Array.isArray(data.value)) {
+      io.error(`Data file '${command.data}' must contain a JSON object`)
+      return
+    }
+    dataSource = data.text
+    return { ...host, ...data.value }
+  }
+
+  // A loader of its own for each run: modules are read afresh, and recorded to be watched.
+  const createLoader = (): ModuleLoader => {
+    const files = createFileLoader()
+    const loaded = (modules = new Map())
+    return {
+      resolve: files.resolve,
+      load: (id) => {
+        const text = io.read(id)
+        loaded.set(id, text)
+        return text
+      }
+    }
+  }
+
+  const modulesChanged = () =>
+    [...modules].some(([id, text]) => {
+      try {
+        return io.read(id) !== text
+      } catch {
+        return true
+      }
+    })
+
+  // Starts the run over, from the values its signals have now.
+  const run = (rule: LogicRule, data: DataContext) => {
+    const hydrate = handle?.snapshot()
+    handle?.dispose()
+    handle = undefined
+    const module = path.relative(process.cwd(), file)
+    try {
+      handle = runLogic(rule, data, { validate: true, module, hydrate, loader: createLoader(), ...options })
+    } catch (error) {
+      fail(error)
+    }
+  }
+
+  const start = () => {
+    const document = readJSON(file)
+    const data = toData(command.data ? readJSON(command.data) : undefined)
+    if (!document || !data) return void (failed = true)
+    source = document.text
+    run(document.value, data)
+  }
+
+  const reload = () => {
+    const document = readJSON(file)
+    const dataFile = command.data ? readJSON(command.data) : undefined
+    if (!document || (command.data && !dataFile)) return
+    if (handle && dataFile?.text === dataSource && !modulesChanged()) {
+      if (document.text === source) return
+      source = document.text
+      try {
+        const { remounted } = handle.update(document.value)
+        const what = remounted.length
+          ? `remounted ${remounted.map((p) => p || '/').join(', ')}`
+          : 'nothing mounted changed'
+        io.print(`Reloaded ${file}: ${what}`)
+      } catch (error) {
+        fail(error)
+      }
+      return
+    }
+    const data = toData(dataFile)
+    if (!data) return
+    source = document.text
+    run(document.value, data)
+    if (handle) io.print(`Restarted ${file}`)
+  }
+
+  const evaluate = (rule: LogicRule) => {
+    if (!handle) throw new Error('The document is not running')
+    io.print(format(handle.evaluate(rule)))
+  }
+
+  const commands = new Map<string, (rest: string) => 'exit' | void>(
+    Object.entries({
+      globals: () => {
+        const values = handle?.globals.values() ?? {}
+        const keys = Object.keys(values)
+        io.print(keys.length ? keys.map((key) => `${key} = ${format(values[key])}`).join('\n') : '(no globals)')
+      },
+      set: (rest) => {
+        const [, key, json] = /^(\S+)\s+([\s\S]+)$/.exec(rest) ?? []
+        if (!key) throw new Error('Usage: set <key> <json>')
+        const signal = handle?.globals.lookup(key)
+        if (!signal) throw new Error(`Global '${key}' not found`)
+        const value = JSON.parse(json)
+        // Effects of the write run right away: what they throw is the tree's failure, not the command's.
+        try {
+          signal[1](() => value)
+        } catch (error) {
+          fail(error)
+        }
+      },
+      eval: (rest) => evaluate(JSON.parse(rest)),
+      reload: () => reload(),
+      help: () => io.print(COMMANDS),
+      exit: () => 'exit' as const
+    })
+  )
+
+  return {
+    get files() {
+      return [...new Set([file, ...(command.data ? [command.data] : []), ...modules.keys()])]
+    },
+    start,
+    reload,
+    command: (line) => {
+      const trimmed = line.trim()
+      if (!trimmed) return
+      const [, name, rest] = /^(\S+)\s*([\s\S]*)$/.exec(trimmed)!
+      try {
+        if (commands.has(name)) return commands.get(name)!(rest)
+        // Anything that is not a command must be a rule.
+        let rule: LogicRule
+        try {
+          rule = JSON.parse(trimmed)
+        } catch {
+          throw new Error(`Unknown command '${name}'. Type 'help' for the commands, or enter a JSON rule`)
+        }
+        evaluate(rule)
+      } catch (error) {
+        io.error(`Error: ${message(error)}`)
+      }
+    },
+    fail,
+    dispose: () => {
+      try {
+        handle?.dispose()
+      } catch (error) {
+        fail(error)
+      }
+      handle = undefined
+      return failed ? 1 : 0
+    }
+  }
+}
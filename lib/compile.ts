@@ -0,0 +1,139 @@
+import jsonLogic from 'json-logic-js'
+import { createContext, getOwner, useContext } from 'solid-js'
+import type { DataContext, LazyNode, LogicRule } from './Interpreter'
+import { standardOperations, type ControlOperator, type Operator, type Suspend } from './operations'
+import { provideContext } from './solid'
+
+// --- Types ---
+
+/** A rule turned into a closure. Evaluates against a data context like `apply` does. */
+export type Compiled = (data: DataContext) => any
+
+/** Finds the compiled body of a LazyNode, for LazyNodes of the compiled trees a run started from. */
+export type CompiledBodies = (node: LazyNode) => Compiled | undefined
+
+/** What the compiler needs from an interpreter instance. Waits on `$await` as `apply` does, through `Suspend`. */
+export interface CompileTarget extends Suspend {
+  operation: (op: string) => Operator | undefined
+  control: (op: string) => ControlOperator | undefined
+  /** Registers the compiled body of a LazyNode so the interpreter runs it instead of re-interpreting. */
+  lazy: (node: LazyNode, body: Compiled) => void
+  /** Called with an operator's node right before the operator runs, as the interpreter's `apply` does. */
+  enter: (node: object) => void
+  /**
+   * Returns how to call the operator of `node` once its arguments are evaluated, for operators
+   * the interpreter's `apply` mounts on their own, or `undefined` to call it directly.
+   */
+  mount: (op: string, node: object) => ((data: DataContext, run: () => any) => any) | undefined
+}
+
+const isLazy = (node: any): node is LazyNode =>
+  node && typeof node === 'object' && '__lazy' in node && node.__lazy === true && 'rule' in node
+
+const isLiteral = (value: any) => value === null || (typeof value !== 'object' && value !== undefined)
+
+// `var` with a literal path: split once, walk on every run. Same results as the `var` operator.
+const compileVar = (path: string | number, fallback: any): Compiled => {
+  const notFound = fallback === undefined ? null : fallback
+  if (path === '') return (data) => data
+  const keys = String(path).split('.')
+  return (data) => {
+    let value: any = data
+    for (const key of keys) {
+      if (value === null || value === undefined) return notFound
+      value = value[key]
+      if (value === undefined) return notFound
+    }
+    return value
+  }
+}
+
+// --- Compiler ---
+
+/**
+ * Compiles a rule into nested closures with the same semantics as the interpreter's `apply`:
+ * operators are resolved once, literal `var` paths are pre-split and LazyNode bodies are
+ * compiled and registered with the target.
+ *
+ * Unknown operators compile to a closure that throws when reached, exactly as `apply` would.
+ *
+ * @param rule - The rule to compile.
+ * @param target - Operator lookups and LazyNode registration of an interpreter instance.
+ * @returns A closure evaluating the rule against a data context.
+ */
+export function compileRule(rule: LogicRule, target: CompileTarget): Compiled {
+  const compile = (node: any): Compiled => {
+    if (Array.isArray(node)) {
+      const items = node.map(compile)
+      return (data) => items.map((item) => item(data))
+    }
+    if (isLazy(node)) {
+      target.lazy(node, compile(node.rule))
+      return () => node
+    }
+    if (!jsonLogic.is_logic(node)) return () => node
+
+    const op = jsonLogic.get_operator(node as any)
+    const raw = (node as any)[op]
+    const values: any[] = Array.isArray(raw) ? raw : [raw]
+
+    const control = target.control(op)
+    if (control) {
+      // Control operators receive raw arguments; hand them an evaluator backed by compiled args.
+      const compiled = new Map<any, Compiled>(values.map((value) => [value, compile(value)]))
+      const evaluate = (logic: LogicRule, data: DataContext) => (compiled.get(logic) ?? compile(logic))(data)
+      return (data) => control(evaluate, values, data, target)
+    }
+
+    const operator = target.operation(op)
+    if (!operator) {
+      return () => {
+        throw new Error(`Unrecognized operation ${op}`)
+      }
+    }
+
+    if (
+      operator === standardOperations.var &&
+      (typeof values[0] === 'string' || typeof values[0] === 'number') &&
+      values.length <= 2 &&
+      (values.length < 2 || isLiteral(values[1]))
+    ) {
+      return compileVar(values[0], values[1])
+    }
+
+    const args = values.map(compile)
+    const mount = target.mount(op, node as object)
+    const call = mount
+      ? (data: DataContext, evaluated: any[]) => {
+          target.enter(node as object)
+          return mount(data, () => operator.apply(data, evaluated))
+        }
+      : (data: DataContext, evaluated: any[]) => {
+          target.enter(node as object)
+          return operator.apply(data, evaluated)
+        }
+    return (data) => {
+      const evaluated = args.map((arg) => arg(data))
+      if (target.pending(evaluated)) return target.resume(evaluated, data, (settled) => call(data, settled))
+      return call(data, evaluated)
+    }
+  }
+
+  return compile(rule)
+}
+
+// --- Run Scope ---
+
+const CompiledBodiesContext = createContext<CompiledBodies | undefined>(undefined)
+
+/**
+ * Makes LazyNodes run in the current owner (and every scope under it) use the bodies found by `bodies`.
+ */
+export const provideCompiledBodies = (bodies: CompiledBodies): void => {
+  const owner = getOwner()
+  if (!owner) throw new Error('provideCompiledBodies must be called inside a reactive root')
+  provideContext(owner, CompiledBodiesContext, bodies)
+}
+
+/** Returns the compiled bodies of the current scope, if any. */
+export const useCompiledBodies = (): CompiledBodies | undefined => useContext(CompiledBodiesContext)
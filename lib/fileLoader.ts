@@ -0,0 +1,18 @@
+import fs from 'node:fs'
+import path from 'node:path'
+import type { ModuleLoader } from './modules'
+
+// Node only: kept apart from `modules.ts` so the interpreter bundles for the browser.
+
+/**
+ * Loads modules from JSON files. Ids are paths relative to `baseDir`.
+ *
+ * @param baseDir - Directory that specifiers without an importing module resolve against.
+ */
+export function createFileLoader(baseDir: string = process.cwd()): ModuleLoader {
+  return {
+    resolve: (specifier, from) =>
+      path.relative(baseDir, path.resolve(baseDir, from ? path.dirname(from) : '', specifier)),
+    load: (id) => fs.readFileSync(path.resolve(baseDir, id), 'utf-8')
+  }
+}
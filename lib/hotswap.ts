@@ -0,0 +1,124 @@
+import {
+  batch,
+  createContext,
+  createSignal,
+  getOwner,
+  onCleanup,
+  useContext,
+  type Accessor,
+  type Signal
+} from 'solid-js'
+import type { LogicRule } from './Interpreter'
+import { Memo, provideContext } from './solid'
+import { pointer } from './validate'
+
+// --- Diffing ---
+
+const isObject = (value: any) => value !== null && typeof value === 'object'
+
+const sameShape = (a: any, b: any) => {
+  if (Array.isArray(a) || Array.isArray(b)) return Array.isArray(a) && Array.isArray(b) && a.length === b.length
+  if (!isObject(a) || !isObject(b)) return false
+  const keys = Object.keys(a)
+  return keys.length === Object.keys(b).length && keys.every((key) => key in b)
+}
+
+const contains = (parent: string, path: string) => parent === '' || path === parent || path.startsWith(parent + '/')
+
+/**
+ * Compares two rule trees node by node. Every difference is charged to the innermost node
+ * enclosing it whose operator is `remountable`, or to the whole tree (`''`) when there is none.
+ * An operator node whose operator changed is a difference of its parent.
+ *
+ * @param prev - The running tree.
+ * @param next - The tree replacing it.
+ * @param remountable - Whether scopes mounted by an operator can be remounted on their own.
+ * @returns JSON pointers of the nodes to remount, in document order, none inside another.
+ */
+export function diffRules(prev: LogicRule, next: LogicRule, remountable: (op: string) => boolean): string[] {
+  const changed: string[] = []
+  const walk = (a: any, b: any, path: (string | number)[], enclosing: string): void => {
+    if (Object.is(a, b)) return
+    if (!sameShape(a, b)) return void changed.push(enclosing)
+    const keys = Object.keys(b)
+    // A remountable node owns the differences inside its arguments.
+    const inner = !Array.isArray(b) && keys.length === 1 && remountable(keys[0]) ? pointer(path) : enclosing
+    for (const key of keys) walk(a[key], b[key], [...path, Array.isArray(b) ? Number(key) : key], inner)
+  }
+  walk(prev, next, [], '')
+  return changed.filter((path, i) => changed.findIndex((other) => contains(other, path)) === i)
+}
+
+// --- Swap Table ---
+
+const unescape = (segment: string) => segment.replace(/~1/g, '/').replace(/~0/g, '~')
+
+// Looks up a node of `rule` by JSON pointer.
+const resolve = (rule: any, path: string) =>
+  path === ''
+    ? rule
+    : path
+        .slice(1)
+        .split('/')
+        .reduce((node, segment) => (isObject(node) ? node[unescape(segment)] : undefined), rule)
+
+/** Where a run mounts its remountable nodes, so `update` can swap in a new tree. */
+export interface SwapTable {
+  /**
+   * Mounts the node at `path` in its own scope with `run`. `run` receives the node at `path`
+   * in the current tree (`node` until the tree is swapped) and runs again when it is remounted,
+   * or when a signal it reads changes.
+   */
+  mount: <T>(path: string, node: object, run: (node: object) => T) => Accessor<T>
+  /**
+   * Makes `rule` the current tree and remounts the live scopes mounted at `paths`.
+   * Scopes mounted later, e.g. in a branch shown afterwards, start from `rule` right away.
+   *
+   * @returns The paths that had live scopes.
+   */
+  swap: (rule: LogicRule, paths: string[]) => string[]
+}
+
+/**
+ * Creates the swap table of a run of `rule`. Provide it to the run's root with `provideSwapTable`.
+ */
+export function createSwapTable(rule: LogicRule): SwapTable {
+  const initial = rule
+  let current = rule
+  // One version signal per path, shared by every scope mounted there (e.g. per list item).
+  const slots = new Map<string, { version: Signal<number>; live: number }>()
+
+  return {
+    mount: (path, node, run) => {
+      let slot = slots.get(path)
+      if (!slot) slots.set(path, (slot = { version: createSignal(0), live: 0 }))
+      const entry = slot
+      entry.live++
+      if (getOwner()) onCleanup(() => entry.live--)
+      return Memo(() => {
+        entry.version[0]()
+        return run(current === initial ? node : (resolve(current, path) ?? node))
+      })
+    },
+    swap: (rule, paths) => {
+      current = rule
+      const live = paths.filter((path) => (slots.get(path)?.live ?? 0) > 0)
+      batch(() => live.forEach((path) => slots.get(path)!.version[1]((v) => v + 1)))
+      return live
+    }
+  }
+}
+
+const SwapTableContext = createContext<SwapTable | undefined>(undefined)
+
+/**
+ * Makes remountable operators in the current owner (and every scope under it) mount through `table`.
+ */
+export const provideSwapTable = (table: SwapTable): void => {
+  const owner = getOwner()
+  if (!owner) throw new Error('provideSwapTable must be called inside a reactive root')
+  provideContext(owner, SwapTableContext, table)
+}
+
+/** Returns the swap table of the current scope, if any. */
+export const useSwapTable = (): SwapTable | undefined => useContext(SwapTableContext)
@@ -0,0 +1,168 @@
+import { createContext, getListener, getOwner, onCleanup, useContext } from 'solid-js'
+import { provideContext } from './solid'
+
+// --- Types ---
+
+/** A mounted scope of a running logic tree, as returned by `LogicHandle.inspect()`. */
+export interface InspectNode {
+  id: number
+  /**
+   * The operator that mounted the scope (`$show`, `$for`, `$effect`, ...), `branch`, `item` or `state`
+   * for the scopes those operators mount, or `root`.
+   */
+  kind: string
+  /** JSON pointer of the originating rule in the tree passed to `runLogic`. */
+  path?: string
+  /** Which branch, item, machine state or context key the scope stands for. */
+  label?: string
+  /** For `$effect` and `$memo`: how many times it ran. */
+  runs?: number
+  /**
+   * For `$effect` and `$memo`: the signals read during the latest run,
+   * e.g. `state:/def/1`, `global:status` or `memo:/def/3`.
+   */
+  deps?: string[]
+  children: InspectNode[]
+}
+
+export type TraceEvent =
+  | { type: 'mount' | 'dispose'; id: number; kind: string; path?: string; label?: string }
+  | { type: 'run'; id: number; kind: string; path?: string; deps: string[] }
+  | { type: 'write'; signal: string; prev: unknown; next: unknown }
+
+export interface Inspector {
+  /**
+   * Adds a scope under the current one. It is removed when the current reactive scope is disposed.
+   * Tracking scopes (effects, memos) count their runs and record the signals they read.
+   */
+  mount: (kind: string, path?: string, label?: string, tracking?: boolean) => InspectNode
+  /** Runs `fn` with `node` as the current scope. For a tracking scope this is one run. */
+  within: <T>(node: InspectNode, fn: () => T) => T
+  /** Records a signal read by the running tracking scope, if any. Untracked reads are ignored. */
+  read: (signal: string) => void
+  /** Reports a signal write to the trace. */
+  write: (signal: string, prev: unknown, next: unknown) => void
+  /** A copy of the current scope tree. */
+  tree: () => InspectNode
+}
+
+// --- Inspector ---
+
+const describe = ({ id, kind, path, label }: InspectNode) => ({
+  id,
+  kind,
+  ...(path !== undefined ? { path } : {}),
+  ...(label !== undefined ? { label } : {})
+})
+
+const copy = (node: InspectNode): InspectNode => ({
+  ...node,
+  ...(node.deps ? { deps: [...node.deps] } : {}),
+  children: node.children.map(copy)
+})
+
+/**
+ * Creates an inspector keeping the tree of mounted scopes of a run.
+ *
+ * @param trace - Receives mount, dispose, run and write events as they happen.
+ * @returns The inspector. Provide it to a root with `provideInspector`.
+ */
+export function createInspector(trace?: (event: TraceEvent) => void): Inspector {
+  let nextId = 0
+  const root: InspectNode = { id: nextId++, kind: 'root', children: [] }
+  let current = root
+  let reads: Set<string> | undefined
+
+  const mount = (kind: string, path?: string, label?: string, tracking = false): InspectNode => {
+    const parent = current
+    const node: InspectNode = {
+      id: nextId++,
+      kind,
+      ...(path !== undefined ? { path } : {}),
+      ...(label !== undefined ? { label } : {}),
+      ...(tracking ? { runs: 0, deps: [] } : {}),
+      children: []
+    }
+    parent.children.push(node)
+    trace?.({ type: 'mount', ...describe(node) })
+    if (getOwner()) {
+      onCleanup(() => {
+        parent.children.splice(parent.children.indexOf(node), 1)
+        trace?.({ type: 'dispose', ...describe(node) })
+      })
+    }
+    return node
+  }
+
+  const within = <T>(node: InspectNode, fn: () => T): T => {
+    const prev = current
+    const prevReads = reads
+    current = node
+    // Only tracking scopes collect reads; scopes mounted inside them have their own.
+    reads = node.deps ? new Set() : undefined
+    try {
+      return fn()
+    } finally {
+      if (node.deps && reads) {
+        node.runs!++
+        node.deps = [...reads]
+        trace?.({ type: 'run', ...describe(node), deps: node.deps })
+      }
+      current = prev
+      reads = prevReads
+    }
+  }
+
+  return {
+    mount,
+    within,
+    read: (signal) => void (getListener() && reads?.add(signal)),
+    write: (signal, prev, next) => trace?.({ type: 'write', signal, prev, next }),
+    tree: () => copy(root)
+  }
+}
+
+const InspectorContext = createContext<Inspector | undefined>(undefined)
+
+/**
+ * Makes operators run in the current owner (and every scope under it) report to `inspector`.
+ */
+export const provideInspector = (inspector: Inspector): void => {
+  const owner = getOwner()
+  if (!owner) throw new Error('provideInspector must be called inside a reactive root')
+  provideContext(owner, InspectorContext, inspector)
+}
+
+/** Returns the inspector of the current scope, if the run is inspected. */
+export const useInspector = (): Inspector | undefined => useContext(InspectorContext)
+
+// --- Printing ---
+
+const line = (node: InspectNode) =>
+  [
+    node.kind,
+    node.label,
+    node.path,
+    node.runs !== undefined ? `runs: ${node.runs}` : undefined,
+    node.deps?.length ? `deps: ${node.deps.join(', ')}` : undefined
+  ]
+    .filter((part) => part !== undefined && part !== '')
+    .join('  ')
+
+/**
+ * Formats a scope tree for the terminal, one scope per line.
+ *
+ * @param node - A tree from `LogicHandle.inspect()`.
+ * @returns Lines joined with `\n`, e.g. `└─ $effect  /def/2/rule/0  runs: 2  deps: state:/def/1`.
+ */
+export function printTree(node: InspectNode): string {
+  const lines = [line(node)]
+  const walk = (children: InspectNode[], indent: string) =>
+    children.forEach((child, i) => {
+      const last = i === children.length - 1
+      lines.push(`${indent}${last ? '└─ ' : '├─ '}${line(child)}`)
+      walk(child.children, indent + (last ? '   ' : '│  '))
+    })
+  walk(node.children, '')
+  return lines.join('\n')
+}
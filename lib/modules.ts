@@ -0,0 +1,187 @@
+import { createContext, getOwner, useContext } from 'solid-js'
+import type { LogicRule } from './Interpreter'
+import { provideContext } from './solid'
+import { LogicValidationError, pointer, type Diagnostic } from './validate'
+
+// --- Types ---
+
+/** Finds and reads the documents `$import` refers to. */
+export interface ModuleLoader {
+  /** Turns `specifier` into a module id. Relative specifiers resolve against the importing module `from`. */
+  resolve: (specifier: string, from?: string) => string
+  /** Returns the document of module `id`: JSON text, or an already parsed object. */
+  load: (id: string) => string | object
+}
+
+/** A parsed and validated module document: `{ "exports": { "<name>": <rule>, ... } }`. */
+export interface LogicModule {
+  id: string
+  exports: Record<string, LogicRule>
+}
+
+export interface ModuleGraph {
+  /**
+   * Returns the module `specifier` refers to from module `from`, loading it and every module it
+   * imports first. Each module is read, parsed and validated once.
+   * Throws for missing, malformed or invalid modules, missing exports and import cycles.
+   */
+  load: (specifier: string, from?: string) => LogicModule
+  /** Loads every module imported by `rule`, the tree of module `id` (if it has one). */
+  preload: (rule: LogicRule, id?: string) => void
+  /** Id of the module a node belongs to, to resolve the imports it contains. */
+  moduleOf: (node: object) => string | undefined
+}
+
+// --- Loaders ---
+// Node's file loader lives in `fileLoader.ts`, so that this module (and the interpreter) runs anywhere.
+
+// Joins `specifier` to directory `dir` like relative POSIX paths, e.g. `lib` and `../a.json` to `a.json`.
+const joinPath = (dir: string, specifier: string) => {
+  const parts: string[] = []
+  for (const part of [...dir.split('/'), ...specifier.split('/')]) {
+    if (part === '' || part === '.') continue
+    if (part === '..' && parts.length && parts[parts.length - 1] !== '..') parts.pop()
+    else parts.push(part)
+  }
+  return parts.join('/')
+}
+
+const dirname = (id: string) => id.slice(0, Math.max(id.lastIndexOf('/'), 0))
+
+/**
+ * Loads modules from a table of documents keyed by id (e.g. `lib/poller.json`), for tests
+ * and bundles. Specifiers resolve like relative file paths.
+ */
+export function createMemoryLoader(files: Record<string, string | object>): ModuleLoader {
+  return {
+    resolve: (specifier, from) => joinPath(specifier.startsWith('/') || !from ? '' : dirname(from), specifier),
+    load: (id) => {
+      if (!(id in files)) throw new Error('No such module')
+      return files[id]
+    }
+  }
+}
+
+/** The loader of runs given none. Trees that import nothing never use it. */
+export const noLoader: ModuleLoader = {
+  resolve: (specifier) => {
+    throw new Error(`Cannot import '${specifier}': the run has no module loader`)
+  },
+  load: () => {
+    throw new Error('The run has no module loader')
+  }
+}
+
+// --- Graph ---
+
+const isObject = (value: any) => value !== null && typeof value === 'object' && !Array.isArray(value)
+
+/**
+ * Creates the module graph of `loader`.
+ *
+ * @param loader - Where modules come from.
+ * @param validate - Checks a rule, e.g. an interpreter's `validateLogic`. Modules with errors are refused.
+ */
+export function createModuleGraph(loader: ModuleLoader, validate: (rule: LogicRule) => Diagnostic[]): ModuleGraph {
+  const modules = new Map<string, LogicModule>()
+  const owners = new WeakMap<object, string>()
+  // Modules being loaded, outermost first. Meeting one of them again is a cycle.
+  const loading: string[] = []
+
+  // Claims the nodes of `rule` for module `id` and loads the modules they import.
+  const link = (rule: any, id: string | undefined) => {
+    if (rule === null || typeof rule !== 'object') return
+    if (id !== undefined && !owners.has(rule)) owners.set(rule, id)
+    const raw = isObject(rule) && Object.keys(rule).length === 1 ? rule.$import : undefined
+    const [specifier, name] = Array.isArray(raw) ? raw : [raw]
+    if (typeof specifier === 'string') {
+      const module = load(specifier, id)
+      if (typeof name === 'string' && !(name in module.exports)) {
+        throw new Error(
+          `Module '${module.id}' has no export '${name}'${id === undefined ? '' : ` (imported by '${id}')`}`
+        )
+      }
+    }
+    Object.values(rule).forEach((child) => link(child, id))
+  }
+
+  const load = (specifier: string, from?: string): LogicModule => {
+    const id = loader.resolve(specifier, from)
+    const cached = modules.get(id)
+    if (cached) return cached
+    if (loading.includes(id))
+      throw new Error(`Import cycle: ${[...loading.slice(loading.indexOf(id)), id].join(' -> ')}`)
+
+    const by = from === undefined ? '' : ` (imported by '${from}')`
+    let source: string | object
+    try {
+      source = loader.load(id)
+    } catch (error) {
+      throw new Error(`Cannot load module '${id}'${by}: ${(error as Error).message}`)
+    }
+    let document: any = source
+    if (typeof source === 'string') {
+      // Parse errors quote the text: keep the content of whatever was read out of the message.
+      try {
+        document = JSON.parse(source)
+      } catch {
+        throw new Error(`Cannot load module '${id}'${by}: not valid JSON`)
+      }
+    }
+    if (!isObject(document) || !isObject(document.exports)) {
+      throw new Error(`Module '${id}' must be an object with "exports"`)
+    }
+    const diagnostics = Object.entries<LogicRule>(document.exports).flatMap(([name, rule]) =>
+      validate(rule)
+        .filter((d) => d.severity === 'error')
+        .map((d) => ({ ...d, path: pointer(['exports', name]) + d.path }))
+    )
+    if (diagnostics.length) throw new LogicValidationError(diagnostics, id)
+
+    const module: LogicModule = { id, exports: document.exports }
+    loading.push(id)
+    try {
+      link(document.exports, id)
+    } finally {
+      loading.pop()
+    }
+    modules.set(id, module)
+    return module
+  }
+
+  return {
+    load,
+    preload: (rule, id) => {
+      if (id !== undefined) loading.push(id)
+      try {
+        link(rule, id)
+      } finally {
+        if (id !== undefined) loading.pop()
+      }
+    },
+    moduleOf: (node) => owners.get(node)
+  }
+}
+
+// --- Run Scope ---
+
+/** The modules of a run: the graph `$import` loads from and the run's evaluated exports. */
+export interface ModuleScope {
+  graph: ModuleGraph
+  /** Id of the module the run's tree came from, if any. Its imports resolve against it. */
+  module?: string
+  /** Returns export `name` of `module`, evaluating it the first time the run imports it. */
+  evaluate: (module: LogicModule, name: string) => any
+}
+
+const ModuleScopeContext = createContext<ModuleScope | undefined>(undefined)
+
+/** Makes `$import` in the current owner (and every scope under it) use `scope`. */
+export const provideModuleScope = (scope: ModuleScope): void => {
+  const owner = getOwner()
+  if (!owner) throw new Error('provideModuleScope must be called inside a reactive root')
+  provideContext(owner, ModuleScopeContext, scope)
+}
+
+/** Returns the module scope of the current run, if any. */
+export const useModuleScope = (): ModuleScope | undefined => useContext(ModuleScopeContext)
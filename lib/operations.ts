@@ -0,0 +1,297 @@
+import jsonLogic from 'json-logic-js'
+import type { DataContext, LogicRule } from './Interpreter'
+import type { OperatorSpec } from './validate'
+
+// --- Types ---
+
+/**
+ * An operator receives its arguments already evaluated, with `this` bound to the
+ * current data context (the same calling convention as json-logic-js operations).
+ */
+export type Operator = (this: DataContext, ...args: any[]) => any
+
+/** Evaluates a rule against a data context (an interpreter's internal `apply`). */
+export type Evaluate = (logic: LogicRule, data: DataContext) => any
+
+/** How a control operator waits on `$await`, as the interpreter's `apply` does for other operators. */
+export interface Suspend {
+  /** Whether an evaluated argument is waiting on `$await`. The operator then continues once they settle, through `resume`. */
+  pending: (args: any[]) => boolean
+  /** Calls `run` with the settled arguments once every one of them has settled, as the interpreter's `apply` does. */
+  resume: (args: any[], data: DataContext, run: (args: any[]) => any) => any
+}
+
+/**
+ * A control operator receives its arguments unevaluated and decides itself what to
+ * evaluate and against which data (e.g. `if` only evaluates the taken branch).
+ * An evaluated argument waiting on `$await` suspends the rest through `suspend`.
+ */
+export type ControlOperator = (evaluate: Evaluate, args: any[], data: DataContext, suspend: Suspend) => any
+
+export const truthy = (value: any): boolean => jsonLogic.truthy(value)
+
+// --- Standard Operators ---
+// Ported from json-logic-js so each interpreter instance can own its operator table.
+
+/** The keys `var` follows for path `a`: none for the data itself, else the segments of `String(a)`. */
+export const varKeys = (a: any): string[] =>
+  typeof a === 'undefined' || a === '' || a === null ? [] : String(a).split('.')
+
+const lookup = (data: any, a: any, b: any) => {
+  const notFound = b === undefined ? null : b
+  const subProps = varKeys(a)
+  for (let i = 0; i < subProps.length; i++) {
+    if (data === null || data === undefined) return notFound
+    data = data[subProps[i]]
+    if (data === undefined) return notFound
+  }
+  return data
+}
+
+const missing = function (this: DataContext, ...args: any[]) {
+  const keys = Array.isArray(args[0]) ? args[0] : args
+  const result: any[] = []
+  for (const key of keys) {
+    const value = lookup(this, key, undefined)
+    if (value === null || value === '') result.push(key)
+  }
+  return result
+}
+
+export const standardOperations: Record<string, Operator> = {
+  '==': (a, b) => a == b,
+  '===': (a, b) => a === b,
+  '!=': (a, b) => a != b,
+  '!==': (a, b) => a !== b,
+  '>': (a, b) => a > b,
+  '>=': (a, b) => a >= b,
+  '<': (a, b, c) => (c === undefined ? a < b : a < b && b < c),
+  '<=': (a, b, c) => (c === undefined ? a <= b : a <= b && b <= c),
+  '!!': (a) => truthy(a),
+  '!': (a) => !truthy(a),
+  '%': (a, b) => a % b,
+  log: (a) => {
+    console.log(a)
+    return a
+  },
+  in: (a, b) => {
+    if (!b || typeof b.indexOf === 'undefined') return false
+    return b.indexOf(a) !== -1
+  },
+  cat: (...args) => args.join(''),
+  substr: (source, start, end) => {
+    if (end < 0) {
+      // JavaScript doesn't support negative end, this emulates PHP behavior
+      const temp = String(source).substr(start)
+      return temp.substr(0, temp.length + end)
+    }
+    return String(source).substr(start, end)
+  },
+  '+': (...args) => args.reduce((a, b) => parseFloat(a) + parseFloat(b), 0),
+  '*': (...args) => args.reduce((a, b) => parseFloat(a) * parseFloat(b)),
+  '-': (a, b) => (b === undefined ? -a : a - b),
+  '/': (a, b) => a / b,
+  min: (...args) => Math.min(...args),
+  max: (...args) => Math.max(...args),
+  merge: (...args) => args.reduce((a, b) => a.concat(b), []),
+  var: function (a, b) {
+    return lookup(this, a, b)
+  },
+  missing: missing,
+  missing_some: function (needCount, options) {
+    const areMissing = missing.call(this, options)
+    return options.length - areMissing.length >= needCount ? [] : areMissing
+  }
+}
+
+// --- json-logic-js Fallback ---
+
+// A private json-logic-js operator handing back the arguments evaluated by the interpreter.
+const ARGUMENT = '\u0000renderless:argument'
+let handedOver: any[] = []
+let registered = false
+
+/**
+ * Returns an operator running `op` from json-logic-js's own table, e.g. one a host added with
+ * `jsonLogic.add_operation` or a dotted sub-operation (`"Math.abs"`). Its arguments arrive
+ * evaluated and are handed to json-logic-js as they are, without being evaluated again.
+ * Operators json-logic-js does not know throw `Unrecognized operation` when applied.
+ */
+export const jsonLogicOperation = (op: string): Operator =>
+  function (...args) {
+    if (!registered) jsonLogic.add_operation(ARGUMENT, (i: number) => handedOver[i])
+    registered = true
+    const outer = handedOver
+    handedOver = args
+    try {
+      return jsonLogic.apply({ [op]: args.map((_, i) => ({ [ARGUMENT]: i })) } as any, this)
+    } finally {
+      handedOver = outer
+    }
+  }
+
+// --- Control Operators ---
+// These violate depth-first evaluation of arguments, so they manage recursion themselves.
+// An argument waiting on `$await` suspends them: they continue once it settles, and return a promise.
+
+// Calls `run` with `values`, once they have settled if one of them is waiting on `$await`.
+const settle = (suspend: Suspend, values: any[], data: DataContext, run: (values: any[]) => any) =>
+  suspend.pending(values) ? suspend.resume(values, data, run) : run(values)
+
+// Evaluates `step(0)`, `step(1)`, ... in order until `stop` holds for a result, or all `count` ran.
+// A step waiting on `$await` suspends the steps after it. Returns `end` of the last result and its index.
+const inOrder = (
+  suspend: Suspend,
+  data: DataContext,
+  count: number,
+  step: (i: number) => any,
+  stop: (value: any) => boolean,
+  end: (value: any, i: number) => any
+) => {
+  const from = (start: number, last: any): any => {
+    for (let i = start; i < count; i++) {
+      last = step(i)
+      if (suspend.pending([last]))
+        return suspend.resume([last], data, ([value]) => (stop(value) ? end(value, i) : from(i + 1, value)))
+      if (stop(last)) return end(last, i)
+    }
+    return end(last, count)
+  }
+  return from(0, undefined)
+}
+
+const ifElse: ControlOperator = (evaluate, args, data, suspend) => {
+  const pairs = Math.floor(args.length / 2)
+  return inOrder(
+    suspend,
+    data,
+    pairs,
+    (i) => evaluate(args[i * 2], data),
+    truthy,
+    (_, i) => {
+      if (i < pairs) return evaluate(args[i * 2 + 1], data)
+      if (args.length % 2) return evaluate(args[args.length - 1], data)
+      return null
+    }
+  )
+}
+
+// Evaluates `logic` against each item of the evaluated `list`, the items in order until `stop` holds.
+const eachItem = (
+  evaluate: Evaluate,
+  [list, logic]: any[],
+  data: DataContext,
+  suspend: Suspend,
+  stop: (value: any) => boolean,
+  end: (stopped: boolean) => boolean,
+  empty: boolean
+) =>
+  settle(suspend, [evaluate(list, data)], data, ([scoped]) => {
+    if (!Array.isArray(scoped) || !scoped.length) return empty
+    const step = (i: number) => evaluate(logic, scoped[i])
+    return inOrder(suspend, data, scoped.length, step, stop, (_, i) => end(i < scoped.length))
+  })
+
+export const controlOperations: Record<string, ControlOperator> = {
+  if: ifElse,
+  '?:': ifElse,
+  // Return first falsy, or last
+  and: (evaluate, args, data, suspend) =>
+    inOrder(
+      suspend,
+      data,
+      args.length,
+      (i) => evaluate(args[i], data),
+      (value) => !truthy(value),
+      (value) => value
+    ),
+  // Return first truthy, or last
+  or: (evaluate, args, data, suspend) =>
+    inOrder(
+      suspend,
+      data,
+      args.length,
+      (i) => evaluate(args[i], data),
+      truthy,
+      (value) => value
+    ),
+  // Items are evaluated all at once: the results are waited on together.
+  filter: (evaluate, [list, logic], data, suspend) =>
+    settle(suspend, [evaluate(list, data)], data, ([scoped]) => {
+      if (!Array.isArray(scoped)) return []
+      const results = scoped.map((datum) => evaluate(logic, datum))
+      return settle(suspend, results, data, (settled) => scoped.filter((_, i) => truthy(settled[i])))
+    }),
+  map: (evaluate, [list, logic], data, suspend) =>
+    settle(suspend, [evaluate(list, data)], data, ([scoped]) => {
+      if (!Array.isArray(scoped)) return []
+      return settle(
+        suspend,
+        scoped.map((datum) => evaluate(logic, datum)),
+        data,
+        (settled) => settled
+      )
+    }),
+  // Each step waits on the accumulator of the one before.
+  reduce: (evaluate, [list, logic, init], data, suspend) => {
+    const scoped = evaluate(list, data)
+    const initial = typeof init !== 'undefined' ? evaluate(init, data) : null
+    return settle(suspend, [scoped, initial], data, ([scoped, initial]) => {
+      if (!Array.isArray(scoped)) return initial
+      const from = (start: number, accumulator: any): any => {
+        for (let i = start; i < scoped.length; i++) {
+          accumulator = evaluate(logic, { current: scoped[i], accumulator })
+          if (suspend.pending([accumulator]))
+            return suspend.resume([accumulator], data, ([value]) => from(i + 1, value))
+        }
+        return accumulator
+      }
+      return from(0, initial)
+    })
+  },
+  // All of an empty set is false
+  all: (evaluate, args, data, suspend) =>
+    eachItem(
+      evaluate,
+      args,
+      data,
+      suspend,
+      (value) => !truthy(value),
+      (stopped) => !stopped,
+      false
+    ),
+  none: (evaluate, args, data, suspend) => eachItem(evaluate, args, data, suspend, truthy, (stopped) => !stopped, true),
+  some: (evaluate, args, data, suspend) => eachItem(evaluate, args, data, suspend, truthy, (stopped) => stopped, false)
+}
+
+// --- Specs ---
+// Argument shapes of the standard operators, for `validateLogic`. Unlisted operators are variadic.
+
+const binary: OperatorSpec = { arity: [2, 2] }
+
+export const standardSpecs: Record<string, OperatorSpec> = {
+  '==': binary,
+  '===': binary,
+  '!=': binary,
+  '!==': binary,
+  '>': binary,
+  '>=': binary,
+  '<': { arity: [2, 3] },
+  '<=': { arity: [2, 3] },
+  '!!': { arity: [1, 1] },
+  '!': { arity: [1, 1] },
+  '%': binary,
+  log: { arity: [1, 1] },
+  in: binary,
+  substr: { arity: [2, 3] },
+  '-': { arity: [1, 2] },
+  '/': binary,
+  var: { arity: [0, 2] },
+  missing_some: binary,
+  filter: binary,
+  map: binary,
+  reduce: { arity: [2, 3] },
+  all: binary,
+  none: binary,
+  some: binary
+}
@@ -0,0 +1,194 @@
+import { createContext, getOwner, useContext } from 'solid-js'
+import type { ModuleLoader } from './modules'
+import { provideContext, type Scheduler } from './solid'
+
+// --- Types ---
+
+/** Limits for running logic trees from untrusted sources, passed as `runLogic(..., { sandbox })`. */
+export interface SandboxPolicy {
+  /**
+   * Dotted paths of the functions in the data context the tree may call, e.g. `["log", "api.fetch"]`.
+   * Other host functions throw when called. Functions the tree creates itself (lambdas, `$state`
+   * getters, ...) are always callable.
+   */
+  allow?: string[]
+  /** How many operators the run may apply over its lifetime. */
+  maxSteps?: number
+  /**
+   * How many times one `$effect` may run in a single turn. Catches effects that `$set` a signal they read.
+   * A turn lasts until the run yields to the event loop, or until one of its timers fires: under a
+   * virtual clock, every timer firing in one `advance` is a turn of its own.
+   */
+  maxEffectDepth?: number
+  /** How long a single turn of the run may take, in real milliseconds (whatever the run's scheduler). */
+  timeout?: number
+  /**
+   * Where `$import` may load modules from, e.g. `createMemoryLoader(files)`. Without one, a sandboxed
+   * tree cannot import anything: the run's `loader` and the default file loader are not used.
+   */
+  loader?: ModuleLoader
+}
+
+/** The rule of a sandbox policy a tree broke. */
+export type SandboxViolation = 'call' | 'property' | 'steps' | 'effects' | 'timeout' | 'import'
+
+export class SandboxError extends Error {
+  violation: SandboxViolation
+  /** JSON pointer of the offending rule in the tree passed to `runLogic`, when known. */
+  path?: string
+
+  constructor(violation: SandboxViolation, message: string, path?: string) {
+    super(path === undefined ? message : `${message} at ${path || '/'}`)
+    this.name = 'SandboxError'
+    this.violation = violation
+    this.path = path
+  }
+}
+
+export interface Sandbox {
+  /**
+   * Returns `data` with every host function the policy does not allow replaced by one that throws.
+   * Objects holding such functions are replaced by plain copies.
+   */
+  expose: <T>(data: T) => T
+  /** Counts one operator applied at `path` against the step budget and the time limit. */
+  step: (path?: string) => void
+  /** Throws if following `keys` (a dotted path or key array) from `value` reads an inherited property. */
+  read: (value: any, keys: unknown, path?: string) => void
+  /** Returns the function to call on every run of the `$effect` at `path`. */
+  effect: (path?: string) => () => void
+  /** Returns `scheduler` with each of its callbacks running in a turn of its own. */
+  schedule: (scheduler: Scheduler) => Scheduler
+}
+
+// --- Sandbox ---
+
+const hasOwn = (value: object, key: PropertyKey) => Object.prototype.hasOwnProperty.call(value, key)
+
+const toKeys = (keys: unknown): PropertyKey[] =>
+  Array.isArray(keys) ? keys : keys === undefined || keys === null || keys === '' ? [] : String(keys).split('.')
+
+/**
+ * Creates the sandbox of a run.
+ *
+ * @param policy - What the run may do.
+ * @param where - JSON pointer of the rule being applied, reported by calls to denied host functions.
+ * @param now - Wall clock for `timeout`.
+ * @returns The sandbox. Provide it to the run's root with `provideSandbox`, and give the run the
+ * scheduler returned by `schedule`.
+ */
+export function createSandbox(
+  policy: SandboxPolicy,
+  where: () => string | undefined,
+  now: () => number = () => performance.now()
+): Sandbox {
+  const allowed = new Set(policy.allow ?? [])
+  let steps = 0
+  // A turn lasts until the run yields to the event loop (microtasks only run once it has),
+  // or until a timer callback of the run returns.
+  let turn = 0
+  let turnStart: number | undefined
+  const begin = () => {
+    if (turnStart !== undefined) return
+    turn++
+    turnStart = now()
+    queueMicrotask(() => (turnStart = undefined))
+  }
+
+  // Copies only the objects that hold denied functions; everything else keeps its identity. Class
+  // instances, maps, ... are searched too, as their own properties are as readable as a plain object's.
+  // Their copies are plain: the tree could not read their inherited properties anyway.
+  const expose = (value: any, path: string[], seen: Map<object, any>): any => {
+    if (typeof value === 'function') {
+      const name = path.join('.')
+      if (allowed.has(name)) return value
+      return () => {
+        throw new SandboxError('call', `Host function '${name}' is not allowed`, where())
+      }
+    }
+    if (value === null || typeof value !== 'object') return value
+    if (seen.has(value)) return seen.get(value)
+    const copy: any = Array.isArray(value) ? [] : {}
+    seen.set(value, copy)
+    let changed = false
+    for (const [key, child] of Object.entries(value)) {
+      copy[key] = expose(child, [...path, key], seen)
+      changed ||= copy[key] !== child
+    }
+    if (!changed) seen.set(value, value)
+    return changed ? copy : value
+  }
+
+  return {
+    expose: (data) => expose(data, [], new Map()),
+    step: (path) => {
+      begin()
+      if (policy.maxSteps !== undefined && ++steps > policy.maxSteps) {
+        throw new SandboxError('steps', `Step budget of ${policy.maxSteps} exceeded`, path)
+      }
+      if (policy.timeout !== undefined && now() - turnStart! > policy.timeout) {
+        throw new SandboxError('timeout', `Time limit of ${policy.timeout}ms exceeded`, path)
+      }
+    },
+    read: (value, keys, path) => {
+      for (const key of toKeys(keys)) {
+        if (value === null || value === undefined) return
+        const object = Object(value)
+        if (!hasOwn(object, key) && key in object) {
+          throw new SandboxError('property', `Cannot read inherited property '${String(key)}'`, path)
+        }
+        value = object[key]
+      }
+    },
+    schedule: (scheduler) => ({
+      now: scheduler.now,
+      setTimeout: (fn, ms) =>
+        scheduler.setTimeout(() => {
+          const outer = turnStart
+          turnStart = undefined
+          try {
+            fn()
+          } finally {
+            turnStart = outer
+          }
+        }, ms),
+      clearTimeout: scheduler.clearTimeout
+    }),
+    effect: (path) => {
+      let runs = 0
+      let runTurn = -1
+      return () => {
+        begin()
+        if (runTurn !== turn) {
+          runTurn = turn
+          runs = 0
+        }
+        if (policy.maxEffectDepth !== undefined && ++runs > policy.maxEffectDepth) {
+          throw new SandboxError('effects', `Effect ran more than ${policy.maxEffectDepth} times in one turn`, path)
+        }
+      }
+    }
+  }
+}
+
+/** The loader of sandboxed runs whose policy names none: every import is a violation. */
+export const deniedLoader: ModuleLoader = {
+  resolve: (specifier) => {
+    throw new SandboxError('import', `Cannot import '${specifier}': the sandbox policy names no loader`)
+  },
+  load: () => {
+    throw new SandboxError('import', 'The sandbox policy names no loader')
+  }
+}
+
+const SandboxContext = createContext<Sandbox | undefined>(undefined)
+
+/** Makes operators run in the current owner (and every scope under it) obey `sandbox`. */
+export const provideSandbox = (sandbox: Sandbox): void => {
+  const owner = getOwner()
+  if (!owner) throw new Error('provideSandbox must be called inside a reactive root')
+  provideContext(owner, SandboxContext, sandbox)
+}
+
+/** Returns the sandbox of the current scope, if the run is sandboxed. */
+export const useSandbox = (): Sandbox | undefined => useContext(SandboxContext)
@@ -1,6 +1,47 @@
 import { describe, it, expect } from 'vitest'
-import { createRoot } from 'solid-js'
-import { Show, For, Effect, Cleanup, Global, State, resetGlobalStates } from './solid'
+import { createRoot, untrack } from 'solid-js'
+import {
+  Show,
+  Switch,
+  Match,
+  For,
+  Index,
+  ErrorBoundary,
+  Machine,
+  Effect,
+  Memo,
+  Resource,
+  Cleanup,
+  Global,
+  State,
+  Store,
+  getIn,
+  setIn,
+  mergeIn,
+  deleteIn,
+  resetGlobalStates,
+  createGlobalRegistry,
+  provideGlobalRegistry,
+  Provide,
+  Use,
+  Interval,
+  Timeout,
+  Delay,
+  createVirtualClock,
+  provideScheduler,
+  On,
+  Emit,
+  createEventBus,
+  provideEventBus,
+  createStateRegistry,
+  provideStateRegistry,
+  Mount,
+  createComponentRegistry,
+  Batch,
+  Untrack,
+  Transaction,
+  type ComponentProps
+} from './solid'
 
 // Helper to wait for Solid's microtask queue (effects)
 const tick = () => new Promise((resolve) => setTimeout(resolve, 0))
@@ -54,6 +95,51 @@ describe('Renderless API', () => {
     })
   })
 
+  it('Memo: derives a value and only notifies on change', async () => {
+    await createRoot(async (dispose) => {
+      const [count, setCount] = State(1)
+      const parity = Memo(() => (count() % 2 === 0 ? 'even' : 'odd'))
+      const runs: string[] = []
+
+      Effect(() => {
+        runs.push(parity())
+      })
+
+      expect(parity()).toBe('odd')
+
+      setCount(3)
+      await tick()
+      expect(runs).toEqual(['odd'])
+
+      setCount(4)
+      await tick()
+      expect(runs).toEqual(['odd', 'even'])
+
+      dispose()
+    })
+  })
+
+  it('Memo: accepts a custom equality check', () => {
+    createRoot((dispose) => {
+      const [user, setUser] = State({ id: 1, name: 'a' })
+      const current = Memo(() => ({ ...user() }), undefined, { equals: (a, b) => a.id === b.id })
+      let runs = 0
+
+      Effect(() => {
+        current()
+        runs++
+      })
+
+      setUser({ id: 1, name: 'b' })
+      expect(runs).toBe(1)
+
+      setUser({ id: 2, name: 'b' })
+      expect(runs).toBe(2)
+
+      dispose()
+    })
+  })
+
   it('Show: executes children when true', async () => {
     let active = false
     await createRoot(async (dispose) => {
@@ -85,6 +171,58 @@ describe('Renderless API', () => {
     })
   })
 
+  it('Switch: mounts the first truthy match and disposes the previous branch', async () => {
+    const output: string[] = []
+    await createRoot(async (dispose) => {
+      const [status, setStatus] = State('idle')
+
+      Switch(
+        [
+          Match(
+            () => status() === 'loading',
+            () => {
+              output.push('mount-loading')
+              Cleanup(() => output.push('cleanup-loading'))
+            }
+          ),
+          Match(
+            () => status() === 'ready',
+            () => {
+              output.push('mount-ready')
+              Cleanup(() => output.push('cleanup-ready'))
+            }
+          ),
+          Match(
+            () => status() !== 'idle',
+            () => output.push('mount-any')
+          )
+        ],
+        () => {
+          output.push('mount-fallback')
+          Cleanup(() => output.push('cleanup-fallback'))
+        }
+      )
+
+      expect(output).toEqual(['mount-fallback'])
+
+      setStatus('loading')
+      await tick()
+      expect(output).toEqual(['mount-fallback', 'cleanup-fallback', 'mount-loading'])
+
+      setStatus('ready')
+      await tick()
+      expect(output.slice(3)).toEqual(['cleanup-loading', 'mount-ready'])
+
+      // Re-selecting the same branch does not remount it
+      setStatus('ready')
+      await tick()
+      expect(output).toHaveLength(5)
+
+      dispose()
+      expect(output[output.length - 1]).toBe('cleanup-ready')
+    })
+  })
+
   it('For: iterates and reacts to list changes', async () => {
     let output: string[] = []
     await createRoot(async (dispose) => {
@@ -111,6 +249,506 @@ describe('Renderless API', () => {
     })
   })
 
+  it('Index: keeps slots mounted and updates items in place', async () => {
+    const output: string[] = []
+    await createRoot(async (dispose) => {
+      const [list, setList] = State<number[]>([1, 2])
+
+      Index(list, (item, index) => {
+        output.push(`mount-${index}`)
+        Effect(() => {
+          output.push(`${index}=${item()}`)
+        })
+        Cleanup(() => output.push(`remove-${index}`))
+      })
+
+      expect(output).toEqual(['mount-0', '0=1', 'mount-1', '1=2'])
+
+      output.length = 0
+      setList([3, 2, 4])
+      await tick()
+
+      expect(output).toHaveLength(3)
+      expect(output).toContain('0=3')
+      expect(output).toContain('mount-2')
+      expect(output).toContain('2=4')
+
+      output.length = 0
+      setList([3])
+      await tick()
+
+      expect(output).toContain('remove-1')
+      expect(output).toContain('remove-2')
+      expect(output).not.toContain('remove-0')
+
+      dispose()
+    })
+  })
+
+  it('Resource: tracks loading, value and error', async () => {
+    await createRoot(async (dispose) => {
+      const [id, setId] = State<number | null>(null)
+      const resource = Resource(id, async (value) => {
+        await sleep(5)
+        if (value < 0) throw new Error('invalid id')
+        return `user-${value}`
+      })
+
+      // A nullish source does not fetch
+      expect(resource.loading()).toBe(false)
+
+      setId(1)
+      expect(resource.loading()).toBe(true)
+      await sleep(20)
+      expect(resource.loading()).toBe(false)
+      expect(resource.value()).toBe('user-1')
+
+      setId(-1)
+      await sleep(20)
+      expect(resource.error()).toBeInstanceOf(Error)
+      expect(resource.value()).toBe('user-1')
+
+      // Skipping the source while a request is pending stops loading
+      setId(2)
+      setId(null)
+      expect(resource.loading()).toBe(false)
+      await sleep(20)
+      expect(resource.loading()).toBe(false)
+      expect(resource.value()).toBe('user-1')
+
+      dispose()
+    })
+  })
+
+  it('Resource: ignores stale requests and aborts on dispose', async () => {
+    const aborted: number[] = []
+    await createRoot(async (dispose) => {
+      const [id, setId] = State(1)
+      const resource = Resource(id, (value, { signal }) => {
+        signal.addEventListener('abort', () => aborted.push(value))
+        return new Promise<number>((resolve) => setTimeout(() => resolve(value), value === 1 ? 20 : 5))
+      })
+
+      setId(2)
+      await sleep(30)
+
+      expect(aborted).toEqual([1])
+      expect(resource.value()).toBe(2)
+
+      setId(3)
+      dispose()
+      expect(aborted).toEqual([1, 3])
+
+      await sleep(10)
+      expect(resource.value()).toBe(2)
+    })
+  })
+
+  it('Store: effects only re-run for the paths they read', () => {
+    createRoot((dispose) => {
+      const [config, setConfig] = Store<any>({ user: { profile: { name: 'Ada', age: 36 } }, theme: 'dark' })
+      const names: string[] = []
+
+      Effect(() => {
+        names.push(getIn(config, 'user.profile.name'))
+      })
+
+      setIn(setConfig, 'user.profile.age', 37)
+      setIn(setConfig, 'theme', 'light')
+      expect(names).toEqual(['Ada'])
+
+      setIn(setConfig, ['user', 'profile', 'name'], 'Grace')
+      expect(names).toEqual(['Ada', 'Grace'])
+
+      mergeIn(setConfig, 'user.profile', { age: 40, title: 'Admiral' })
+      expect(getIn(config, 'user.profile')).toEqual({ name: 'Grace', age: 40, title: 'Admiral' })
+      expect(names).toHaveLength(2)
+
+      deleteIn(setConfig, 'user.profile.name')
+      expect(names).toEqual(['Ada', 'Grace', undefined])
+
+      // Missing intermediate objects are created
+      setIn(setConfig, 'session.token', 'abc')
+      expect(getIn(config, 'session.token')).toBe('abc')
+      expect(getIn(config, 'missing.path')).toBeUndefined()
+
+      dispose()
+    })
+  })
+
+  it('Global: resolves against the registry provided to the current root', () => {
+    const shared = createGlobalRegistry()
+    shared.define('theme', 'dark')
+    const tenant = createGlobalRegistry(shared)
+
+    createRoot((dispose) => {
+      provideGlobalRegistry(tenant)
+
+      const [theme] = Global<string>('theme')
+      const [status, setStatus] = Global('tenant-status', 'idle')
+      setStatus('busy')
+
+      expect(theme()).toBe('dark')
+      expect(status()).toBe('busy')
+      dispose()
+    })
+
+    expect(tenant.keys()).toEqual(['tenant-status', 'theme'])
+    expect(tenant.values()).toEqual({ 'tenant-status': 'busy', theme: 'dark' })
+    expect(shared.keys()).toEqual(['theme'])
+
+    // Roots without a provided registry use the process-wide default
+    createRoot((dispose) => {
+      expect(() => Global('tenant-status')).toThrow()
+      dispose()
+    })
+  })
+
+  it('Provide/Use: values follow the ownership tree', async () => {
+    const seen: string[] = []
+    await createRoot(async (dispose) => {
+      const [items, setItems] = State(['a'])
+
+      expect(Use('service', 'none')).toBe('none')
+
+      Provide('service', 'outer', () => {
+        For(items, (item) => {
+          seen.push(`${item}:${Use<string>('service')}`)
+        })
+
+        Provide('service', 'inner', () => {
+          seen.push(`nested:${Use<string>('service')}`)
+        })
+
+        seen.push(`after:${Use<string>('service')}`)
+      })
+
+      setItems(['a', 'b'])
+      await tick()
+
+      expect(seen).toEqual(['a:outer', 'nested:inner', 'after:outer', 'b:outer'])
+      dispose()
+    })
+  })
+
+  it('ErrorBoundary: isolates a failing scope and remounts it on reset', () => {
+    const logs: string[] = []
+    const [count, setCount] = State(0)
+    let reset = () => {}
+
+    const dispose = createRoot((dispose) => {
+      ErrorBoundary(
+        () => {
+          Cleanup(() => logs.push('child disposed'))
+          Effect(() => {
+            if (count() === 1) throw new Error('boom')
+            logs.push(`child ${count()}`)
+          })
+        },
+        (error, retry) => {
+          reset = retry
+          logs.push(`fallback ${error.message}`)
+          Cleanup(() => logs.push('fallback disposed'))
+        }
+      )
+      Effect(() => logs.push(`sibling ${count()}`))
+      return dispose
+    })
+
+    setCount(1)
+    expect(logs).toEqual(['child 0', 'sibling 0', 'sibling 1', 'child disposed', 'fallback boom'])
+
+    logs.length = 0
+    setCount(2)
+    reset()
+    expect(logs).toEqual(['sibling 2', 'fallback disposed', 'child 2'])
+    dispose()
+
+    // Errors thrown while mounting are caught too, and non-Error values are wrapped.
+    logs.length = 0
+    createRoot((dispose) => {
+      ErrorBoundary(
+        () => {
+          throw 'not an error'
+        },
+        (error) => logs.push(`caught ${error.message}`)
+      )
+      return dispose
+    })()
+    expect(logs).toEqual(['caught not an error'])
+  })
+
+  it('Machine: mounts only the active state and rejects illegal transitions', () => {
+    const logs: string[] = []
+    const [retries, setRetries] = State(0)
+
+    const { machine, dispose } = createRoot((dispose) => {
+      const machine = Machine<number | undefined>({
+        initial: 'idle',
+        states: {
+          idle: { on: { START: 'running' } },
+          running: {
+            on: { FAIL: { target: 'failed', guard: (code) => code !== 0 }, STOP: 'idle' },
+            entry: () => {
+              Effect(() => logs.push(`running, retries ${retries()}`))
+              Cleanup(() => logs.push('left running'))
+            }
+          },
+          failed: { on: { RETRY: 'running' }, entry: (code) => logs.push(`failed with ${code}`) }
+        }
+      })
+      return { machine, dispose }
+    })
+
+    expect(machine.state()).toBe('idle')
+    expect(() => machine.send('RETRY')).toThrow("Illegal transition: event 'RETRY' is not allowed in state 'idle'")
+
+    expect(machine.send('START')).toBe(true)
+    setRetries(1)
+    expect(machine.send('FAIL', 0)).toBe(false)
+    expect(machine.state()).toBe('running')
+    expect(machine.send('FAIL', 2)).toBe(true)
+    expect(machine.state()).toBe('failed')
+    expect(machine.can('RETRY')).toBe(true)
+    expect(machine.can('STOP')).toBe(false)
+
+    // Effects of a left state no longer run
+    setRetries(2)
+    expect(logs).toEqual(['running, retries 0', 'running, retries 1', 'left running', 'failed with 2'])
+    dispose()
+
+    expect(() => createRoot(() => Machine({ initial: 'a', states: { a: { on: { GO: 'b' } } } }))).toThrow(
+      "Machine transition 'GO' from 'a' targets unknown state 'b'"
+    )
+  })
+
+  it('Interval/Timeout/Delay: run on the provided scheduler and clear on dispose', () => {
+    const clock = createVirtualClock()
+    const logs: string[] = []
+    const [every, setEvery] = State(100)
+    const [source, setSource] = State('a')
+    const [active, setActive] = State(true)
+
+    const { delayed, dispose } = createRoot((dispose) => {
+      provideScheduler(clock)
+      Show(active, () => {
+        Interval((tick) => logs.push(`tick ${tick} at ${clock.now()}`), every)
+      })
+      const cancel = Timeout(() => logs.push('never'), 50)
+      Timeout(() => logs.push(`timeout at ${clock.now()}`), 150)
+      cancel()
+      return { delayed: Delay(source, 30), dispose }
+    })
+
+    clock.advance(250)
+    expect(logs).toEqual(['tick 1 at 100', 'timeout at 150', 'tick 2 at 200'])
+
+    // A new period restarts the interval from now
+    logs.length = 0
+    setEvery(40)
+    clock.advance(100)
+    expect(logs).toEqual(['tick 1 at 290', 'tick 2 at 330'])
+
+    setSource('b')
+    expect(delayed()).toBe('a')
+    clock.advance(29)
+    expect(delayed()).toBe('a')
+    clock.advance(1)
+    expect(delayed()).toBe('b')
+
+    // Unmounting the scope clears its interval
+    logs.length = 0
+    setActive(false)
+    setSource('c')
+    dispose()
+    clock.advance(1000)
+    expect(logs).toEqual([])
+    expect(delayed()).toBe('b')
+    expect(clock.pending()).toBe(0)
+  })
+
+  it('Interval: a tick changing the period leaves a single interval running', () => {
+    const clock = createVirtualClock()
+    const logs: string[] = []
+    const dispose = createRoot((dispose) => {
+      provideScheduler(clock)
+      const [every, setEvery] = State(100)
+      Interval((tick) => {
+        logs.push(`tick ${tick} at ${clock.now()}`)
+        if (tick === 2) setEvery(50)
+      }, every)
+      return dispose
+    })
+
+    clock.advance(300)
+    expect(logs).toEqual(['tick 1 at 100', 'tick 2 at 200', 'tick 1 at 250', 'tick 2 at 300'])
+    expect(clock.pending()).toBe(1)
+
+    dispose()
+    clock.advance(100)
+    expect(logs).toHaveLength(4)
+    expect(clock.pending()).toBe(0)
+  })
+
+  it('On/Emit: dispatches synchronously to subscriptions of the current scope', () => {
+    const logs: string[] = []
+    const bus = createEventBus<{ 'job:done': { id: number } }>()
+    const [watching, setWatching] = State(true)
+    const [seen, setSeen] = State(0)
+
+    const dispose = createRoot((dispose) => {
+      provideEventBus(bus)
+      Show(watching, () => {
+        On<{ id: number }>('job:done', ({ id }) => logs.push(`watcher ${id}`))
+      })
+      On<{ id: number }>('job:done', ({ id }) => {
+        // Handlers run untracked: reading `seen` here does not subscribe anything
+        setSeen(seen() + 1)
+        logs.push(`counter ${id}`)
+      })
+      Effect(() => Emit('job:started', seen()))
+      return dispose
+    })
+
+    bus.emit('job:done', { id: 1 })
+    expect(logs).toEqual(['watcher 1', 'counter 1'])
+
+    logs.length = 0
+    setWatching(false)
+    bus.emit('job:done', { id: 2 })
+    expect(logs).toEqual(['counter 2'])
+
+    logs.length = 0
+    dispose()
+    bus.emit('job:done', { id: 3 })
+    expect(logs).toEqual([])
+    expect(seen()).toBe(2)
+  })
+
+  it('State ids: snapshot tracked signals and hydrate them once', () => {
+    const registry = createStateRegistry({ count: 5, 'item#2': 'saved' })
+    const [items, setItems] = State(['a', 'b'])
+
+    const dispose = createRoot((dispose) => {
+      provideStateRegistry(registry)
+      const [count, setCount] = State(0, { id: 'count' })
+      State('untracked')
+      For(items, (item) => State(item, { id: 'item' }))
+      expect(count()).toBe(5)
+      setCount(6)
+      return dispose
+    })
+
+    expect(registry.snapshot()).toEqual({ count: 6, item: 'a', 'item#2': 'saved' })
+
+    // Hydrated values apply to the first signal claiming an id only
+    setItems(['a'])
+    setItems(['a', 'c'])
+    expect(registry.snapshot()).toEqual({ count: 6, item: 'a', 'item#2': 'c' })
+
+    dispose()
+    expect(registry.snapshot()).toEqual({})
+
+    const globals = createGlobalRegistry(undefined, { theme: 'dark' })
+    expect(globals.define('theme', 'light')[0]()).toBe('dark')
+    globals.define('user', 'ada')
+    expect(globals.snapshot()).toEqual({ theme: 'dark', user: 'ada' })
+  })
+
+  it('Mount: gives each component instance its own scope', () => {
+    const logs: string[] = []
+    const [label, setLabel] = State('a')
+    const [shown, setShown] = State(true)
+    const Labeller = (props: ComponentProps) => {
+      const [runs, setRuns] = State(0)
+      Effect(() => {
+        setRuns(untrack(runs) + 1)
+        logs.push(`${props.prefix()}${props.label()}`)
+      })
+      Cleanup(() => logs.push(`bye ${props.prefix()}`))
+      return runs
+    }
+
+    const shared = createComponentRegistry()
+    shared.define('Labeller', { params: ['prefix', 'label'], component: Labeller })
+    const registry = createComponentRegistry(shared)
+    expect(registry.lookup('Labeller')?.params).toEqual(['prefix', 'label'])
+    expect(registry.names()).toEqual(['Labeller'])
+
+    let first: () => number = () => 0
+    const dispose = createRoot((dispose) => {
+      first = Mount(Labeller, { prefix: () => '1:', label })
+      Show(shown, () => {
+        Mount(Labeller, { prefix: () => '2:', label })
+      })
+      return dispose
+    })
+    expect(logs).toEqual(['1:a', '2:a'])
+
+    logs.length = 0
+    setLabel('b')
+    expect(logs).toEqual(['1:b', '2:b'])
+    expect(first()).toBe(2)
+
+    logs.length = 0
+    setShown(false)
+    expect(logs).toEqual(['bye 2:'])
+
+    logs.length = 0
+    dispose()
+    expect(logs).toEqual(['bye 1:'])
+  })
+
+  it('Batch/Untrack/Transaction: effects see whole updates and failed transactions roll back', () => {
+    const logs: string[] = []
+    const [a, setA] = State(0)
+    const [b, setB] = State(0)
+    const [theme, setTheme] = Global('batch-theme', 'light')
+
+    const dispose = createRoot((dispose) => {
+      Effect(() => logs.push(`${a()}/${b()} ${Untrack(theme)}`))
+      return dispose
+    })
+    expect(logs).toEqual(['0/0 light'])
+
+    // Untracked reads do not subscribe
+    setTheme('dark')
+    expect(logs).toEqual(['0/0 light'])
+
+    logs.length = 0
+    expect(
+      Batch(() => {
+        setA(1)
+        setB(1)
+        // Writes apply immediately, dependents wait for the end of the batch
+        expect(logs).toEqual([])
+        return a() + b()
+      })
+    ).toBe(2)
+    expect(logs).toEqual(['1/1 dark'])
+
+    logs.length = 0
+    expect(() =>
+      Transaction(() => {
+        setA(2)
+        // A committed inner transaction is still undone by the outer one
+        Transaction(() => setTheme('blue'))
+        setB((v) => v + 1)
+        setA(3)
+        throw new Error('boom')
+      })
+    ).toThrow('boom')
+    expect([a(), b(), theme()]).toEqual([1, 1, 'dark'])
+    // Dependents re-run once, with the restored values
+    expect(logs).toEqual(['1/1 dark'])
+
+    expect(Transaction(() => (setA(5), a()))).toBe(5)
+    expect(logs[logs.length - 1]).toBe('5/1 dark')
+
+    dispose()
+    resetGlobalStates()
+  })
+
   it('resetGlobalStates: clears all global signals', () => {
     createRoot((dispose) => {
       // Set a global
@@ -1,18 +1,40 @@
 import {
+  batch,
+  catchError,
   createComputed,
+  createContext,
+  createMemo,
+  getOwner,
   onCleanup,
   createSignal,
   mapArray,
+  indexArray,
+  runWithOwner,
+  untrack,
+  useContext,
   type Accessor,
+  type Context,
+  type Owner,
+  type MemoOptions,
   type JSX,
   type SignalOptions,
+  type Setter,
   type Signal
 } from 'solid-js'
+import { createStore, produce, reconcile, type SetStoreFunction, type Store as StoreValue } from 'solid-js/store'
 
 export type RenderlessElement = JSX.Element | void
 
 const r = <T>(val: T | Accessor<T>): Accessor<T> => (typeof val === 'function' ? (val as Accessor<T>) : () => val)
 
+/**
+ * Attaches a context value to `owner`. Scopes created under it afterwards inherit the value.
+ * The `provideX` helpers of the other modules use this too.
+ */
+export const provideContext = <T>(owner: Owner, context: Context<T>, value: T): void => {
+  owner.context = { ...owner.context, [context.id]: value }
+}
+
 /**
  * Control Flow: Show
  * Renders `children` when `when` is truthy, otherwise renders `fallback`.
@@ -41,6 +63,62 @@ export const Show = <T>(
   return undefined as unknown as JSX.Element
 }
 
+/**
+ * Control Flow: Match
+ * Declares a single branch for `Switch`. It does nothing until it is passed to a `Switch`.
+ */
+export interface MatchBranch<T = any> {
+  when: Accessor<T>
+  children: RenderlessElement | ((item: NonNullable<T>) => RenderlessElement)
+}
+
+export const Match = <T>(
+  when: T | Accessor<T>,
+  children: RenderlessElement | ((item: NonNullable<T>) => RenderlessElement)
+): MatchBranch<T> => ({ when: r(when), children })
+
+/**
+ * Control Flow: Switch
+ * Mounts the first `Match` whose `when` is truthy, otherwise `fallback`.
+ * Only one branch is mounted at a time: when the active match changes, the previous
+ * branch's scope (its effects and cleanups) is disposed before the next one runs.
+ */
+export const Switch = (
+  matches: MatchBranch[],
+  fallback?: RenderlessElement | (() => RenderlessElement)
+): RenderlessElement => {
+  const active = createMemo(
+    (): [number, any] => {
+      for (let i = 0; i < matches.length; i++) {
+        const c = matches[i].when()
+        if (c) return [i, c]
+      }
+      return [-1, undefined]
+    },
+    undefined,
+    { equals: (a, b) => a[0] === b[0] && a[1] === b[1] }
+  )
+  createComputed(() => {
+    const [index, c] = active()
+    // The branch owns its own reactive scope; reads inside it must not re-select the branch.
+    untrack(() => {
+      if (index >= 0) {
+        const children = matches[index].children
+        if (typeof children === 'function') {
+          if ((children as Function).length > 0) {
+            ;(children as Function)(c)
+          } else {
+            ;(children as Function)()
+          }
+        }
+      } else {
+        if (typeof fallback === 'function') (fallback as Function)()
+      }
+    })
+  })
+  return undefined as unknown as JSX.Element
+}
+
 /**
  * Control Flow: For
  * Iterates over a list and executes `children` for each item.
@@ -58,6 +136,119 @@ export const For = <T>(
   return undefined as unknown as RenderlessElement
 }
 
+/**
+ * Control Flow: Index
+ * Iterates over a list keyed by position rather than item identity.
+ * Each slot is mounted once and receives an `item` accessor that updates in place,
+ * so replacing array contents does not tear down per-item effects.
+ */
+export const Index = <T>(
+  each: readonly T[] | Accessor<readonly T[] | undefined | null> | undefined | null,
+  children: (item: Accessor<T>, index: number) => void
+): RenderlessElement => {
+  const list = r(each)
+  const mapped = indexArray(list, (item, index) => {
+    children(item, index)
+    return undefined
+  })
+  createComputed(mapped)
+  return undefined as unknown as RenderlessElement
+}
+
+/**
+ * Control Flow: ErrorBoundary
+ * Runs `children` in their own scope and catches errors thrown while mounting them or
+ * later from their effects. On error the children are disposed and `fallback` runs with
+ * the error and a `reset()` function that disposes the fallback and remounts the children.
+ */
+export const ErrorBoundary = (
+  children: () => RenderlessElement,
+  fallback: (error: Error, reset: () => void) => RenderlessElement
+): RenderlessElement => {
+  // Solid casts everything it catches to an Error, so a set value always means "errored".
+  const [errored, setErrored] = createSignal<Error | undefined>()
+  const reset = () => setErrored(undefined)
+  createComputed(() => {
+    const error = errored()
+    untrack(() => {
+      if (error) fallback(error, reset)
+      else catchError(children, setErrored)
+    })
+  })
+  return undefined as unknown as RenderlessElement
+}
+
+export interface MachineTransition<P = any> {
+  target: string
+  /** The transition is skipped (and `send` returns `false`) unless the guard returns truthy. */
+  guard?: (payload: P) => unknown
+}
+
+export interface MachineState<P = any> {
+  /** Allowed transitions out of this state, by event name. */
+  on?: Record<string, string | MachineTransition<P>>
+  /** Mounted in its own scope when the state is entered, disposed when it is left. */
+  entry?: (payload: P) => RenderlessElement
+}
+
+export interface MachineConfig<P = any> {
+  initial: string
+  states: Record<string, MachineState<P>>
+}
+
+export interface MachineHandle<P = any> {
+  state: Accessor<string>
+  /** Applies the transition for `event`. Throws if the current state does not allow it. */
+  send: (event: string, payload?: P) => boolean
+  /** Whether the current state has a transition for `event` (guards are not run). */
+  can: (event: string) => boolean
+}
+
+/**
+ * Control Flow: Machine
+ * A finite state machine. Only the active state's `entry` scope is mounted: a transition
+ * disposes the previous state's scope (its effects and cleanups) before entering the next.
+ * Sending an event the current state has no transition for throws.
+ */
+export const Machine = <P = any>(config: MachineConfig<P>): MachineHandle<P> => {
+  const states = config.states
+  if (!(config.initial in states)) throw new Error(`Machine has no initial state '${config.initial}'`)
+  for (const [name, { on = {} }] of Object.entries(states)) {
+    for (const [event, transition] of Object.entries(on)) {
+      const target = typeof transition === 'string' ? transition : transition.target
+      if (!(target in states)) {
+        throw new Error(`Machine transition '${event}' from '${name}' targets unknown state '${target}'`)
+      }
+    }
+  }
+
+  // Every transition produces a new entry, so self-transitions remount the state too.
+  let current = config.initial
+  const [entered, setEntered] = createSignal<{ state: string; payload?: P }>({ state: current })
+  const state = createMemo(() => entered().state)
+
+  createComputed(() => {
+    const { state: name, payload } = entered()
+    untrack(() => states[name].entry?.(payload as P))
+  })
+
+  const send = (event: string, payload?: P): boolean => {
+    const transition = states[current].on?.[event]
+    if (transition === undefined) {
+      throw new Error(`Illegal transition: event '${event}' is not allowed in state '${current}'`)
+    }
+    const { target, guard } = typeof transition === 'string' ? { target: transition, guard: undefined } : transition
+    if (guard && !untrack(() => guard(payload as P))) return false
+    current = target
+    setEntered({ state: target, payload })
+    return true
+  }
+
+  const can = (event: string) => states[state()].on?.[event] !== undefined
+
+  return { state, send, can }
+}
+
 /**
  * Reactivity: Effect
  * wrapper for createComputed (synchronous effect for headless)
@@ -66,6 +257,15 @@ export const Effect = <T>(fn: (v: T) => T, value?: T): void => {
   createComputed(fn as any, value)
 }
 
+/**
+ * Reactivity: Memo
+ * Wrapper for createMemo. Derives a read-only value that only notifies dependents
+ * when the result changes. Pass `options.equals` to customize change detection
+ * (or `false` to notify on every re-run).
+ */
+export const Memo = <T>(fn: (v: T) => T, value?: T, options?: MemoOptions<T>): Accessor<T> =>
+  createMemo(fn as any, value as T, options)
+
 /**
  * Reactivity: Cleanup
  * Registers a cleanup function to run when the current reactive scope is disposed.
@@ -74,24 +274,710 @@ export const Cleanup = (fn: () => void): void => {
   onCleanup(fn)
 }
 
+// Runs `fn` in a batch. Solid drops the pending updates of a batch that throws, which would leave
+// its dependents stale for good, so the error is caught inside and rethrown once they have run.
+// `rollback` runs inside the batch before that, so dependents only see what it restores.
+const batched = <T>(fn: () => T, rollback?: () => void): T => {
+  let failure: { error: unknown } | undefined
+  const result = batch(() => {
+    try {
+      return fn()
+    } catch (error) {
+      failure = { error }
+      rollback?.()
+      return undefined as T
+    }
+  })
+  if (failure) throw failure.error
+  return result
+}
+
+/**
+ * Reactivity: Batch
+ * Wrapper for batch. Signal writes inside `fn` take effect immediately, but the effects and
+ * memos depending on them re-run once, after `fn` returns, so they never see half of an update.
+ */
+export const Batch = <T>(fn: () => T): T => batched(fn)
+
+/**
+ * Reactivity: Untrack
+ * Wrapper for untrack. Runs `fn` without subscribing the current effect or memo to what it reads.
+ */
+export const Untrack = <T>(fn: () => T): T => untrack(fn)
+
+// Previous values of the signals written in the running transaction, by setter. First write wins.
+let journal: Map<Setter<any>, unknown> | undefined
+
+// Makes the setter of `signal` report its writes to the running transaction.
+const journaled = <T>([get, set]: Signal<T>): Signal<T> => [
+  get,
+  ((value: any) => {
+    if (journal && !journal.has(set)) journal.set(set, untrack(get))
+    return set(value)
+  }) as Setter<T>
+]
+
+/**
+ * Reactivity: Transaction
+ * Like `Batch`, but all or nothing: when `fn` throws, every `State` and `Global` signal it wrote
+ * is set back to its value from before the transaction, then the error is rethrown.
+ * Dependents re-run once and see either every write or none. Stores are not rolled back.
+ * A transaction inside another one is rolled back with it when the outer one fails.
+ */
+export const Transaction = <T>(fn: () => T): T => {
+  const outer = journal
+  const writes = new Map<Setter<any>, unknown>()
+  const result = batched(
+    () => {
+      journal = writes
+      try {
+        return fn()
+      } finally {
+        journal = outer
+      }
+    },
+    () => writes.forEach((prev, set) => set(() => prev))
+  )
+  // Committed into the outer transaction: its rollback must undo these writes too.
+  if (outer) writes.forEach((prev, set) => outer.has(set) || outer.set(set, prev))
+  return result
+}
+
+export interface ResourceFetcherInfo {
+  /** Aborted when the source changes, `refetch` is called, or the owning scope is disposed. */
+  signal: AbortSignal
+}
+
+export type ResourceFetcher<S, T> = (source: S, info: ResourceFetcherInfo) => T | Promise<T>
+
+export interface ResourceHandle<T> {
+  value: Accessor<T | undefined>
+  loading: Accessor<boolean>
+  error: Accessor<unknown>
+  refetch: () => void
+}
+
+/**
+ * Async: Resource
+ * Tracks a reactive `source` and calls `fetcher` whenever it changes.
+ * A nullish or `false` source skips fetching. Only the latest request may settle:
+ * stale requests are aborted when the source changes, on `refetch`, and when the
+ * owning scope is disposed.
+ */
+export const Resource = <S, T>(
+  source: S | Accessor<S>,
+  fetcher: ResourceFetcher<NonNullable<S>, T>
+): ResourceHandle<T> => {
+  const input = r(source)
+  const [value, setValue] = createSignal<T | undefined>(undefined)
+  const [loading, setLoading] = createSignal(false)
+  const [error, setError] = createSignal<unknown>(undefined)
+  const [version, setVersion] = createSignal(0)
+
+  createComputed(() => {
+    version()
+    const s = input()
+    // A skipped source is not loading, even if it cut a pending request short.
+    if (s === undefined || s === null || (s as unknown) === false) return void setLoading(false)
+
+    const controller = new AbortController()
+    let settled = false
+    onCleanup(() => settled || controller.abort())
+    setLoading(true)
+    setError(undefined)
+
+    untrack(() => {
+      let pending: T | Promise<T>
+      try {
+        pending = fetcher(s as NonNullable<S>, { signal: controller.signal })
+      } catch (err) {
+        pending = Promise.reject(err)
+      }
+      Promise.resolve(pending).then(
+        (v) => {
+          if (controller.signal.aborted) return
+          settled = true
+          setValue(() => v)
+          setLoading(false)
+        },
+        (err) => {
+          if (controller.signal.aborted) return
+          settled = true
+          setError(() => err)
+          setLoading(false)
+        }
+      )
+    })
+  })
+
+  return { value, loading, error, refetch: () => setVersion((v) => v + 1) }
+}
+
+/** The clock behind `Interval`, `Timeout` and `Delay`. */
+export interface Scheduler {
+  now: () => number
+  setTimeout: (fn: () => void, ms: number) => unknown
+  clearTimeout: (handle: unknown) => void
+}
+
+export const realScheduler: Scheduler = {
+  now: () => Date.now(),
+  setTimeout: (fn, ms) => setTimeout(fn, ms),
+  clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>)
+}
+
+export interface VirtualClock extends Scheduler {
+  /** Moves time forward by `ms`, running due timers in order (including ones they schedule). */
+  advance: (ms: number) => void
+  /** Number of timers waiting to run. */
+  pending: () => number
+}
+
+/**
+ * Async: createVirtualClock
+ * A scheduler that only moves when told to. Provide it with `provideScheduler` (or
+ * `runLogic`'s `scheduler` option) to drive timers deterministically in tests.
+ */
+export const createVirtualClock = (start = 0): VirtualClock => {
+  let time = start
+  let nextId = 0
+  const timers = new Map<number, { at: number; fn: () => void }>()
+  return {
+    now: () => time,
+    setTimeout: (fn, ms) => {
+      timers.set(++nextId, { at: time + Math.max(0, ms), fn })
+      return nextId
+    },
+    clearTimeout: (handle) => void timers.delete(handle as number),
+    advance: (ms) => {
+      const end = time + ms
+      for (;;) {
+        // Earliest first; timers due at the same time run in the order they were set.
+        let due: [number, { at: number; fn: () => void }] | undefined
+        for (const entry of timers) if (entry[1].at <= end && (!due || entry[1].at < due[1].at)) due = entry
+        if (!due) break
+        timers.delete(due[0])
+        time = due[1].at
+        due[1].fn()
+      }
+      time = end
+    },
+    pending: () => timers.size
+  }
+}
+
+const SchedulerContext = createContext<Scheduler>(realScheduler)
+
+/**
+ * Async: provideScheduler
+ * Makes timers created in the current owner (and every scope under it) use `scheduler`.
+ * Outside any provided scheduler, timers use the real clock.
+ */
+export const provideScheduler = (scheduler: Scheduler): void => {
+  const owner = getOwner()
+  if (!owner) throw new Error('provideScheduler must be called inside a reactive root')
+  provideContext(owner, SchedulerContext, scheduler)
+}
+
+/** Returns the scheduler timers use in the current scope. */
+export const useScheduler = (): Scheduler => useContext(SchedulerContext)
+
+/**
+ * Async: Timeout
+ * Calls `fn` once after `ms`. A reactive `ms` restarts the wait when it changes.
+ * Cleared when the owning scope is disposed. Returns a function that cancels it early.
+ */
+export const Timeout = (fn: () => void, ms: number | Accessor<number>): (() => void) => {
+  const scheduler = useScheduler()
+  const owner = getOwner()
+  const delay = r(ms)
+  let handle: unknown
+  let done = false
+  const cancel = () => {
+    done = true
+    scheduler.clearTimeout(handle)
+  }
+  createComputed(() => {
+    const wait = delay()
+    if (done) return
+    scheduler.clearTimeout(handle)
+    handle = scheduler.setTimeout(() => {
+      done = true
+      runWithOwner(owner, fn)
+    }, wait)
+  })
+  onCleanup(cancel)
+  return cancel
+}
+
+/**
+ * Async: Interval
+ * Calls `fn` every `ms` with the tick count (starting at 1). Ticks are scheduled against
+ * the scheduler's clock, so slow callbacks do not make it drift. A reactive `ms` restarts
+ * the interval when it changes. Cleared when the owning scope is disposed.
+ * Returns a function that stops it early.
+ */
+export const Interval = (fn: (tick: number) => void, ms: number | Accessor<number>): (() => void) => {
+  const scheduler = useScheduler()
+  const owner = getOwner()
+  const delay = r(ms)
+  let handle: unknown
+  let stopped = false
+  // The latest run of the computed. Timers of earlier runs (e.g. one whose tick changed `ms`) stand down.
+  let current: object | undefined
+  const stop = () => {
+    stopped = true
+    scheduler.clearTimeout(handle)
+  }
+  createComputed(() => {
+    const every = Math.max(1, delay())
+    if (stopped) return
+    scheduler.clearTimeout(handle)
+    const run = (current = {})
+    const start = scheduler.now()
+    let tick = 0
+    const schedule = () => {
+      handle = scheduler.setTimeout(
+        () => {
+          if (stopped || run !== current) return
+          tick++
+          runWithOwner(owner, () => fn(tick))
+          if (!stopped && run === current) schedule()
+        },
+        start + (tick + 1) * every - scheduler.now()
+      )
+    }
+    schedule()
+  })
+  onCleanup(stop)
+  return stop
+}
+
+/**
+ * Async: Delay
+ * Mirrors `source`, `ms` behind: every change is applied after the delay.
+ * Pending changes are dropped when the owning scope is disposed.
+ */
+export const Delay = <T>(source: Accessor<T>, ms: number): Accessor<T> => {
+  const scheduler = useScheduler()
+  const [value, setValue] = createSignal<T>(untrack(source))
+  const handles = new Set<unknown>()
+  let first = true
+  createComputed(() => {
+    const next = source()
+    if (first) return void (first = false)
+    const handle = scheduler.setTimeout(() => {
+      handles.delete(handle)
+      setValue(() => next)
+    }, ms)
+    handles.add(handle)
+  })
+  onCleanup(() => handles.forEach((handle) => scheduler.clearTimeout(handle)))
+  return value
+}
+
+const ProvidedContext = createContext<Record<string, unknown>>({})
+
+/**
+ * Context: Provide
+ * Runs `children` in a new scope where `Use(key)` resolves to `value`.
+ * Values follow the ownership tree: every scope created under `children` (Show/For
+ * branches, effects) sees the nearest ancestor's value for `key`.
+ */
+export const Provide = <T>(key: string, value: T, children: () => RenderlessElement): RenderlessElement => {
+  createComputed(() =>
+    untrack(() => {
+      provideContext(getOwner()!, ProvidedContext, { ...useContext(ProvidedContext), [key]: value })
+      children()
+    })
+  )
+  return undefined as unknown as RenderlessElement
+}
+
+/**
+ * Context: Use
+ * Reads the value provided for `key` by the nearest ancestor `Provide`,
+ * or `defaultValue` when no ancestor provides it.
+ */
+export const Use = <T>(key: string, defaultValue?: T): T | undefined => {
+  const provided = useContext(ProvidedContext)
+  return Object.prototype.hasOwnProperty.call(provided, key) ? (provided[key] as T) : defaultValue
+}
+
+/** Props of a component instance: one accessor per declared param. */
+export type ComponentProps = Record<string, Accessor<any>>
+
+/** A renderless component. `params` name its props, in the order they are passed when mounting it. */
+export interface ComponentDefinition {
+  params: string[]
+  component: (props: ComponentProps) => any
+}
+
+export interface ComponentRegistry {
+  /** Registry consulted for names this registry does not define itself. */
+  readonly parent: ComponentRegistry | undefined
+  /** Defines `name` in this registry, replacing an earlier definition. */
+  define: (name: string, definition: ComponentDefinition) => void
+  /** Finds a component in this registry or its parents. */
+  lookup: (name: string) => ComponentDefinition | undefined
+  /** Names visible from this registry, including inherited ones. */
+  names: () => string[]
+}
+
+/**
+ * Components: createComponentRegistry
+ * Creates a table of named components. Lookups fall through to `parent`,
+ * definitions always go to this registry.
+ */
+export const createComponentRegistry = (parent?: ComponentRegistry): ComponentRegistry => {
+  const definitions = new Map<string, ComponentDefinition>()
+  return {
+    parent,
+    define: (name, definition) => void definitions.set(name, definition),
+    lookup: (name) => definitions.get(name) ?? parent?.lookup(name),
+    names: () => [...new Set([...definitions.keys(), ...(parent?.names() ?? [])])]
+  }
+}
+
+const ComponentRegistryContext = createContext<ComponentRegistry | undefined>(undefined)
+
+/**
+ * Components: provideComponentRegistry
+ * Makes components defined or mounted in the current owner (and every scope under it) use `registry`.
+ */
+export const provideComponentRegistry = (registry: ComponentRegistry): void => {
+  const owner = getOwner()
+  if (!owner) throw new Error('provideComponentRegistry must be called inside a reactive root')
+  provideContext(owner, ComponentRegistryContext, registry)
+}
+
+/** Returns the component registry of the current scope, if one was provided. */
+export const useComponentRegistry = (): ComponentRegistry | undefined => useContext(ComponentRegistryContext)
+
+/**
+ * Components: Mount
+ * Runs `component(props)` in a new scope, like a Solid component: the states, effects,
+ * timers and cleanups it creates belong to this instance and are disposed with the
+ * enclosing scope. Returns what the component returns.
+ */
+export const Mount = <P, T>(component: (props: P) => T, props: P): T => {
+  let result: T
+  createComputed(() => untrack(() => (result = component(props))))
+  return result!
+}
+
+/** A synchronous publish/subscribe channel. `E` maps topic names to payload types. */
+export interface EventBus<E extends Record<string, any> = Record<string, any>> {
+  /** Subscribes `handler` to `topic`. Returns a function that unsubscribes it. */
+  on: <K extends keyof E & string>(topic: K, handler: (payload: E[K]) => void) => () => void
+  /** Calls every handler of `topic` in subscription order before returning. */
+  emit: <K extends keyof E & string>(topic: K, payload: E[K]) => void
+  /** Removes every subscription. */
+  clear: () => void
+}
+
+/**
+ * Events: createEventBus
+ * Creates an event channel. Handlers subscribed or removed while an event is being
+ * dispatched only affect later events.
+ */
+export const createEventBus = <E extends Record<string, any> = Record<string, any>>(): EventBus<E> => {
+  const topics = new Map<string, Set<(payload: any) => void>>()
+  return {
+    on: (topic, handler) => {
+      let handlers = topics.get(topic)
+      if (!handlers) topics.set(topic, (handlers = new Set()))
+      // Wrap so the same function can subscribe twice and unsubscribe independently.
+      const subscription = (payload: any) => handler(payload)
+      handlers.add(subscription)
+      return () => void handlers.delete(subscription)
+    },
+    emit: (topic, payload) => {
+      // Iterate a copy: handlers may subscribe or unsubscribe while the event is dispatched.
+      for (const handler of Array.from(topics.get(topic) ?? [])) handler(payload)
+    },
+    clear: () => topics.clear()
+  }
+}
+
+const defaultEventBus = createEventBus()
+const EventBusContext = createContext<EventBus>(defaultEventBus)
+
+/**
+ * Events: provideEventBus
+ * Scopes `On` and `Emit` in the current owner (and every scope created under it) to `bus`.
+ * Outside any provided bus, a process-wide default bus is used.
+ */
+export const provideEventBus = (bus: EventBus<any>): void => {
+  const owner = getOwner()
+  if (!owner) throw new Error('provideEventBus must be called inside a reactive root')
+  provideContext(owner, EventBusContext, bus)
+}
+
+/** Returns the event bus that `On` and `Emit` use in the current scope. */
+export const useEventBus = (): EventBus => useContext(EventBusContext)
+
+/**
+ * Events: On
+ * Subscribes `handler` to `topic` on the current scope's bus until the scope is disposed.
+ * The handler runs untracked, inside the subscribing scope. Returns a function that unsubscribes early.
+ */
+export const On = <T = any>(topic: string, handler: (payload: T) => void): (() => void) => {
+  const owner = getOwner()
+  const off = useEventBus().on(topic, (payload: T) => runWithOwner(owner, () => untrack(() => handler(payload))))
+  onCleanup(off)
+  return off
+}
+
+/**
+ * Events: Emit
+ * Dispatches `payload` to the handlers of `topic` on the current scope's bus, synchronously.
+ */
+export const Emit = <T = any>(topic: string, payload?: T): void => useEventBus().emit(topic, payload)
+
+export interface StateRegistry {
+  /**
+   * Reserves `id` for a new signal and returns its initial value: the hydrated value
+   * the first time `id` is claimed, `initial` otherwise. An id already held by a live
+   * signal gets a numeric suffix (`id#2`, `id#3`, ...), e.g. for states created per list item.
+   */
+  claim: <T>(id: string, initial: T) => { id: string; initial: T }
+  /** Makes `get` part of snapshots under an id returned by `claim`. */
+  track: (id: string, get: Accessor<unknown>) => void
+  /** Frees an id, e.g. when the scope owning its signal is disposed. */
+  release: (id: string) => void
+  /** Current (untracked) values of every tracked signal, by id. */
+  snapshot: () => Record<string, unknown>
+}
+
+/**
+ * State: createStateRegistry
+ * Tracks signals created with an `id` so their values can be saved with `snapshot()`
+ * and restored in a later registry created with `hydrated`.
+ */
+export const createStateRegistry = (hydrated: Record<string, unknown> = {}): StateRegistry => {
+  const pending = new Map(Object.entries(hydrated))
+  const tracked = new Map<string, Accessor<unknown>>()
+  const claimed = new Set<string>()
+  return {
+    claim: (id, initial) => {
+      let unique = id
+      for (let n = 2; claimed.has(unique); n++) unique = `${id}#${n}`
+      claimed.add(unique)
+      if (!pending.has(unique)) return { id: unique, initial }
+      const value = pending.get(unique)
+      pending.delete(unique)
+      return { id: unique, initial: value as typeof initial }
+    },
+    track: (id, get) => void tracked.set(id, get),
+    release: (id) => {
+      claimed.delete(id)
+      tracked.delete(id)
+    },
+    snapshot: () => untrack(() => Object.fromEntries([...tracked].map(([id, get]) => [id, get()])))
+  }
+}
+
+const StateRegistryContext = createContext<StateRegistry | undefined>(undefined)
+
+/**
+ * State: provideStateRegistry
+ * Makes `State` calls with an `id` in the current owner (and every scope under it) register with `registry`.
+ */
+export const provideStateRegistry = (registry: StateRegistry): void => {
+  const owner = getOwner()
+  if (!owner) throw new Error('provideStateRegistry must be called inside a reactive root')
+  provideContext(owner, StateRegistryContext, registry)
+}
+
+/** Returns the state registry of the current scope, if one was provided. */
+export const useStateRegistry = (): StateRegistry | undefined => useContext(StateRegistryContext)
+
 /**
  * State: State
  * Creates a local reactive state (signal).
+ * With an `id` and a provided state registry, the signal is included in snapshots and
+ * starts from its hydrated value when there is one.
  */
-export const State = <T>(value: T, options?: SignalOptions<T>): Signal<T> => createSignal(value, options)
+export const State = <T>(value: T, options?: SignalOptions<T> & { id?: string }): Signal<T> => {
+  const registry = options?.id === undefined ? undefined : useStateRegistry()
+  if (!registry) return journaled(createSignal(value, options))
+  const { id, initial } = registry.claim(options!.id!, value)
+  const signal = journaled(createSignal(initial, options))
+  registry.track(id, signal[0])
+  onCleanup(() => registry.release(id))
+  return signal
+}
+
+export type StorePath = string | readonly (string | number)[]
 
-const globalSignals = new Map<string, Signal<any>>()
+// Segments that would step from a store into the prototypes shared by every object.
+const UNSAFE_KEYS = new Set(['__proto__', 'constructor', 'prototype'])
+
+const toKeys = (path: StorePath): (string | number)[] => {
+  const keys = typeof path === 'string' ? (path === '' ? [] : path.split('.')) : [...path]
+  for (const key of keys) {
+    if (UNSAFE_KEYS.has(String(key))) throw new Error(`Store path segment '${key}' is not allowed`)
+  }
+  return keys
+}
+
+// Walks `keys` inside a produce() draft, creating missing intermediate objects when `create` is set.
+const walk = (draft: any, keys: (string | number)[], create: boolean): any => {
+  let target = draft
+  for (const key of keys) {
+    if (target[key] === null || typeof target[key] !== 'object') {
+      if (!create) return undefined
+      target[key] = {}
+    }
+    target = target[key]
+  }
+  return target
+}
+
+/**
+ * State: Store
+ * Wrapper for createStore. Creates a nested reactive object where each property
+ * is tracked individually, so effects only re-run for the fields they read.
+ */
+export const Store = <T extends object>(value: T): [get: StoreValue<T>, set: SetStoreFunction<T>] => createStore(value)
+
+/**
+ * Store: getIn
+ * Reads a dotted path (`"user.profile.name"`) or key array from a store.
+ * Tracks only the properties along the path. Missing segments return `undefined`.
+ */
+export const getIn = (store: any, path: StorePath): any => {
+  let value = store
+  for (const key of toKeys(path)) {
+    if (value === null || value === undefined) return undefined
+    value = value[key]
+  }
+  return value
+}
+
+/**
+ * Store: setIn
+ * Replaces the value at `path`, creating intermediate objects as needed.
+ * An empty path replaces the whole store (reconciled, so unchanged fields do not notify).
+ */
+export const setIn = <T extends object>(setStore: SetStoreFunction<T>, path: StorePath, value: any): void => {
+  const keys = toKeys(path)
+  if (keys.length === 0) return setStore(reconcile(value))
+  const last = keys.pop()!
+  setStore(
+    produce((draft) => {
+      walk(draft, keys, true)[last] = value
+    })
+  )
+}
+
+/**
+ * Store: mergeIn
+ * Shallow-merges `value` into the object at `path`, creating it if missing.
+ */
+export const mergeIn = <T extends object>(setStore: SetStoreFunction<T>, path: StorePath, value: object): void => {
+  const keys = toKeys(path)
+  if (keys.length === 0) return setStore(value as any)
+  setStore(
+    produce((draft) => {
+      Object.assign(walk(draft, keys, true), value)
+    })
+  )
+}
+
+/**
+ * Store: deleteIn
+ * Removes the property at `path`. Missing paths are ignored.
+ */
+export const deleteIn = <T extends object>(setStore: SetStoreFunction<T>, path: StorePath): void => {
+  const keys = toKeys(path)
+  if (keys.length === 0) throw new Error('Cannot delete the root of a store')
+  const last = keys.pop()!
+  setStore(
+    produce((draft) => {
+      const parent = walk(draft, keys, false)
+      if (parent) delete parent[last]
+    })
+  )
+}
+
+export interface GlobalRegistry {
+  /** Registry consulted for keys this registry does not define itself. */
+  readonly parent: GlobalRegistry | undefined
+  /** Finds a global signal in this registry or its parents. */
+  lookup: <T>(key: string) => Signal<T> | undefined
+  /** Returns the existing signal for `key`, or creates it in this registry. */
+  define: <T>(key: string, initial: T) => Signal<T>
+  /** Keys visible from this registry, including inherited ones. */
+  keys: () => string[]
+  /** Current (untracked) values of every visible key. */
+  values: () => Record<string, unknown>
+  /** Current (untracked) values of the keys this registry owns, for hydrating a later registry. */
+  snapshot: () => Record<string, unknown>
+  /** Removes the signals this registry owns. Parents are left untouched. */
+  clear: () => void
+}
+
+/**
+ * State: createGlobalRegistry
+ * Creates a store of global signals. Lookups fall through to `parent`,
+ * new keys are always created in this registry. `hydrated` values (e.g. from an
+ * earlier `snapshot()`) are defined up front and win over initials passed to `define`.
+ */
+export const createGlobalRegistry = (
+  parent?: GlobalRegistry,
+  hydrated: Record<string, unknown> = {}
+): GlobalRegistry => {
+  const signals = new Map<string, Signal<any>>(
+    Object.entries(hydrated).map(([key, value]) => [key, journaled(createSignal(value))])
+  )
+  const registry: GlobalRegistry = {
+    parent,
+    lookup: (key) => signals.get(key) ?? parent?.lookup(key),
+    define: (key, initial) => {
+      const existing = registry.lookup<any>(key)
+      if (existing) return existing
+      const signal = journaled(createSignal(initial))
+      signals.set(key, signal)
+      return signal
+    },
+    keys: () => [...new Set([...signals.keys(), ...(parent?.keys() ?? [])])],
+    values: () => untrack(() => Object.fromEntries(registry.keys().map((key) => [key, registry.lookup(key)![0]()]))),
+    snapshot: () => untrack(() => Object.fromEntries([...signals].map(([key, [get]]) => [key, get()]))),
+    clear: () => signals.clear()
+  }
+  return registry
+}
+
+const defaultGlobalRegistry = createGlobalRegistry()
+const GlobalRegistryContext = createContext<GlobalRegistry>(defaultGlobalRegistry)
+
+/**
+ * State: provideGlobalRegistry
+ * Scopes `Global` lookups in the current owner (and every scope created under it) to `registry`.
+ * Outside any provided registry, `Global` uses a process-wide default registry.
+ */
+export const provideGlobalRegistry = (registry: GlobalRegistry): void => {
+  const owner = getOwner()
+  if (!owner) throw new Error('provideGlobalRegistry must be called inside a reactive root')
+  provideContext(owner, GlobalRegistryContext, registry)
+}
+
+/** Returns the global registry that `Global` resolves against in the current scope. */
+export const useGlobalRegistry = (): GlobalRegistry => useContext(GlobalRegistryContext)
 
 /**
  * State: Global
- * Accesses or creates a shared global signal by key.
+ * Accesses or creates a shared global signal by key in the current scope's registry.
  */
 export const Global = <T>(key: string, initial?: T): Signal<T> => {
-  if (!globalSignals.has(key)) {
-    if (initial === undefined) throw new Error(`Global state '${key}' not found`)
-    globalSignals.set(key, createSignal(initial))
-  }
-  return globalSignals.get(key) as Signal<T>
+  const registry = useGlobalRegistry()
+  const existing = registry.lookup<T>(key)
+  if (existing) return existing
+  if (initial === undefined) throw new Error(`Global state '${key}' not found`)
+  return registry.define<T>(key, initial as T)
 }
 
-export const resetGlobalStates = (): void => globalSignals.clear()
+/** Clears the process-wide default registry. Registries owned by `runLogic` roots are not affected. */
+export const resetGlobalStates = (): void => defaultGlobalRegistry.clear()
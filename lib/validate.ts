@@ -0,0 +1,178 @@
+import type { LogicRule } from './Interpreter'
+
+// --- Types ---
+
+/**
+ * Static description of an operator's arguments, used by `validateLogic`.
+ * Positions refer to the operator's argument list (`{"op": [arg0, arg1, ...]}`).
+ */
+export interface OperatorSpec {
+  /** Allowed argument count as `[min, max]`. Omit `max` for variadic operators. */
+  arity?: [number, number?]
+  /** Positions that must be LazyNodes (`null` is accepted for an absent branch). */
+  lazy?: number[]
+  /** Positions that must be a LazyNode or an expression producing a function (e.g. `lambda`). */
+  callable?: number[]
+  /** Positions that must be literal strings (names bound in the tree, module specifiers). */
+  strings?: number[]
+  /** Positions holding keys, topics or events. They may be computed; a literal there should be a string. */
+  keys?: number[]
+  /** Extra checks. `report` takes a path relative to the argument list. */
+  check?: (args: any[], report: (path: (string | number)[], message: string, suggestion?: string) => void) => void
+}
+
+export interface Diagnostic {
+  severity: 'error' | 'warning'
+  /** JSON pointer (RFC 6901) to the offending node, e.g. `/def/2/rule/1/$show/1`. */
+  path: string
+  message: string
+  suggestion?: string
+}
+
+/** Resolves an operator name to its spec, or `undefined` when the operator is unknown. */
+export type SpecLookup = (op: string) => OperatorSpec | undefined
+
+export class LogicValidationError extends Error {
+  diagnostics: Diagnostic[]
+  /** Id of the module the tree came from, for trees loaded by `$import`. */
+  source?: string
+
+  constructor(diagnostics: Diagnostic[], source?: string) {
+    const first = diagnostics[0]
+    const where = source === undefined ? '' : ` in module '${source}'`
+    super(
+      `Invalid logic tree${where} (${diagnostics.length} error${diagnostics.length === 1 ? '' : 's'}): ${first.path || '/'} ${first.message}`
+    )
+    this.name = 'LogicValidationError'
+    this.diagnostics = diagnostics
+    this.source = source
+  }
+}
+
+// --- Helpers ---
+
+const LAZY_SUGGESTION = 'Wrap it as { "__lazy": true, "rule": ... }'
+
+const isLazy = (node: any) => node !== null && typeof node === 'object' && node.__lazy === true && 'rule' in node
+
+const isLogic = (node: any) =>
+  node !== null && typeof node === 'object' && !Array.isArray(node) && Object.keys(node).length === 1
+
+const escape = (segment: string | number) => String(segment).replace(/~/g, '~0').replace(/\//g, '~1')
+
+/** Formats path segments as a JSON pointer (RFC 6901), e.g. `['def', 2, 'rule']` as `/def/2/rule`. */
+export const pointer = (segments: (string | number)[]) => segments.map((s) => '/' + escape(s)).join('')
+
+const describe = (node: any) =>
+  node === null
+    ? 'null'
+    : Array.isArray(node)
+      ? 'an array'
+      : typeof node === 'object'
+        ? 'an object'
+        : `a ${typeof node}`
+
+const distance = (a: string, b: string): number => {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    let prev = row[0]
+    row[0] = i
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j]
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, prev + (a[i - 1] === b[j - 1] ? 0 : 1))
+      prev = current
+    }
+  }
+  return row[b.length]
+}
+
+const closest = (name: string, candidates: string[]) => {
+  let best: string | undefined
+  let bestDistance = Math.max(2, Math.floor(name.length / 3))
+  for (const candidate of candidates) {
+    const d = distance(name, candidate)
+    if (d <= bestDistance) {
+      best = candidate
+      bestDistance = d
+    }
+  }
+  return best
+}
+
+// --- Validator ---
+
+/**
+ * Walks a logic tree without running it and reports malformed nodes.
+ *
+ * @param rule - The logic tree to check.
+ * @param lookup - Resolves operator specs (unknown operators resolve to `undefined`).
+ * @param operators - Known operator names, used to suggest fixes for typos.
+ * @returns Diagnostics in document order. An empty list means the tree is valid.
+ */
+export function validateRule(rule: LogicRule, lookup: SpecLookup, operators: string[] = []): Diagnostic[] {
+  const diagnostics: Diagnostic[] = []
+  const error = (path: (string | number)[], message: string, suggestion?: string) =>
+    diagnostics.push({ severity: 'error', path: pointer(path), message, ...(suggestion ? { suggestion } : {}) })
+  const warning = (path: (string | number)[], message: string) =>
+    diagnostics.push({ severity: 'warning', path: pointer(path), message })
+
+  const walk = (node: any, path: (string | number)[]): void => {
+    if (Array.isArray(node)) return node.forEach((child, i) => walk(child, [...path, i]))
+    if (isLazy(node)) return walk(node.rule, [...path, 'rule'])
+    if (!isLogic(node)) return
+
+    const op = Object.keys(node)[0]
+    const raw = node[op]
+    const args: any[] = Array.isArray(raw) ? raw : [raw]
+    // Unary operators may skip the array: `{"$effect": <arg>}` points at the operator itself.
+    const argPath = (i: number) => (Array.isArray(raw) ? [...path, op, i] : [...path, op])
+
+    const spec = lookup(op)
+    if (!spec) {
+      const guess = closest(op, operators)
+      error([...path, op], `Unknown operator '${op}'`, guess ? `Did you mean '${guess}'?` : undefined)
+    } else {
+      const [min, max] = spec.arity ?? [0, undefined]
+      if (args.length < min || (max !== undefined && args.length > max)) {
+        const expected = max === undefined ? `at least ${min}` : min === max ? `${min}` : `${min} to ${max}`
+        error([...path, op], `'${op}' expects ${expected} argument${expected === '1' ? '' : 's'}, got ${args.length}`)
+      }
+      for (const i of spec.lazy ?? []) {
+        if (i < args.length && args[i] !== null && !isLazy(args[i])) {
+          error(argPath(i), `Argument ${i} of '${op}' must be a LazyNode, got ${describe(args[i])}`, LAZY_SUGGESTION)
+        }
+      }
+      for (const i of spec.callable ?? []) {
+        if (i < args.length && !isLazy(args[i]) && !isLogic(args[i])) {
+          error(
+            argPath(i),
+            `Argument ${i} of '${op}' must be a LazyNode or a function, got ${describe(args[i])}`,
+            LAZY_SUGGESTION
+          )
+        }
+      }
+      for (const i of spec.strings ?? []) {
+        if (i < args.length && typeof args[i] !== 'string') {
+          error(argPath(i), `Argument ${i} of '${op}' must be a string, got ${describe(args[i])}`)
+        }
+      }
+      for (const i of spec.keys ?? []) {
+        if (i < args.length && typeof args[i] !== 'string' && !isLogic(args[i])) {
+          warning(argPath(i), `Argument ${i} of '${op}' should be a string, got ${describe(args[i])}`)
+        }
+      }
+      spec.check?.(args, (relative, message, suggestion) =>
+        error(
+          Array.isArray(raw) ? [...path, op, ...relative] : [...path, op, ...relative.slice(1)],
+          message,
+          suggestion
+        )
+      )
+    }
+
+    args.forEach((arg, i) => walk(arg, argPath(i)))
+  }
+
+  walk(rule, [])
+  return diagnostics
+}
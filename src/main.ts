@@ -1,42 +1,66 @@
 import fs from 'node:fs'
-import path from 'node:path'
-import { runLogic } from '../lib/interpreter'
-import { Global } from '../lib/solid'
+import readline from 'node:readline'
+import { COMMANDS, USAGE, createSession, parseCommand, type CliCommand } from '../lib/cli'
 
-async function main() {
-  const jsonPath = path.resolve(process.cwd(), 'demo.json')
-  const json = JSON.parse(fs.readFileSync(jsonPath, 'utf-8'))
-
-  // Context with globals needed
-  const context = {
-    setInterval: setInterval,
-    clearInterval: clearInterval,
-    console: console,
-    log: (msg: any) => console.log(msg)
+function main() {
+  // e.g. `renderless run app/main.json --data ctx.json --watch`
+  let command: CliCommand
+  try {
+    command = parseCommand(process.argv.slice(2))
+  } catch (error) {
+    console.error(`${(error as Error).message}\n\n${USAGE}`)
+    process.exit(2)
+  }
+  if (command.command === 'help') {
+    console.log(`${USAGE}\n\n${COMMANDS}`)
+    return
   }
 
-  console.log('--- Starting Logic Interpreter ---')
+  const session = createSession(command)
+  let exiting = false
+  const exit = () => {
+    if (exiting) return
+    exiting = true
+    process.exit(session.dispose())
+  }
 
-  // Initialize Global manually if needed?
-  // The JSON initializes 'app_status' via $global op.
+  // Timers and effects throw outside any command: record the failure and keep the run going.
+  process.on('uncaughtException', session.fail)
+  process.on('unhandledRejection', session.fail)
+  process.on('SIGTERM', exit)
 
-  runLogic(json, context)
+  // Starts watching the files the session added since the last call, e.g. modules a reload imported.
+  const watched = new Set<string>()
+  const watch = () => {
+    if (!command.watch) return
+    for (const file of session.files) {
+      if (watched.has(file)) continue
+      watched.add(file)
+      fs.watchFile(file, { interval: 250 }, () => {
+        session.reload()
+        watch()
+      })
+    }
+  }
 
-  // Scheduled interaction
-  setTimeout(() => {
-    console.log("\n>>> [Main] Manually setting app_status to 'running'...\n")
-    const [, set] = Global('app_status')
-    set('running')
-  }, 1000)
+  session.start()
+  watch()
 
-  // Wait for finish
-  setTimeout(() => {
-    // Check if finished?
-    const [get] = Global('app_status')
-    console.log(`\n>>> [Main] Final Status: ${get()}`)
-    console.log('>>> [Main] Exiting.')
-    process.exit(0)
-  }, 4000)
+  // Without a terminal there is no REPL: the run lasts until it has nothing left to do, or is interrupted.
+  if (!process.stdin.isTTY) {
+    process.on('SIGINT', exit)
+    process.on('beforeExit', exit)
+    return
+  }
+  const repl = readline.createInterface({ input: process.stdin, output: process.stdout, prompt: '> ' })
+  repl.on('line', (line) => {
+    if (session.command(line) === 'exit') return repl.close()
+    watch()
+    repl.prompt()
+  })
+  repl.on('SIGINT', () => repl.close())
+  repl.on('close', exit)
+  repl.prompt()
 }
 
 main()